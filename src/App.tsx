@@ -1,7 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { LiveAPIProvider } from './contexts/LiveAPIContext';
 import { useLiveAPIContext } from './contexts/LiveAPIContext';
-import { PI_SYSTEM_INSTRUCTION, piToolDeclarations } from './config/piTutor';
+import {
+  buildPiSystemInstruction,
+  buildPiToolDeclarations,
+  describeTutorSettings,
+  describeTutorSettingsChange
+} from './config/piTutor';
 import { designSystem } from './config/designSystem';
 import { VoiceInput } from './components/VoiceInput';
 import UnifiedCanvas from './components/UnifiedCanvas';
@@ -11,43 +16,101 @@ import VoicePermissionModal from './components/VoicePermissionModal';
 import LessonHomepage from './components/LessonHomepage';
 import LessonTransition from './components/LessonTransition';
 import LessonEntryPopup from './components/LessonEntryPopup';
+import StudentPicker from './components/StudentPicker';
 import { ToolCallFeedback } from './components/ToolCallFeedback';
-import { handleToolCall } from './lib/toolImplementations';
+import { HintCard } from './components/HintCard';
+import { CelebrationLayer } from './components/CelebrationLayer';
+import { cancelToolCalls, handleToolCall, ToolCallResult } from './lib/toolImplementations';
 import { useConnectionRetry } from './hooks/useConnectionRetry';
 import { useDebounce } from './hooks/useDebounce';
-import { sessionRecorder } from './lib/sessionRecorder';
-import { Modality } from '@google/genai';
+import { sessionRecorder, ProblemTransition } from './lib/sessionRecorder';
+import { visionSync, VisionUpdatePlan } from './lib/visionSync';
+import { sessionBus } from './lib/sessionBus';
+import { useManipulativeStore } from './lib/manipulativeStore';
+import { useProblemStore } from './lib/problemStore';
+import { selectTutorSettings, useTutorSettingsStore } from './lib/tutorSettings';
+import { selectCurrentStudent, useStudentStore } from './lib/studentProfiles';
+import { useShallow } from 'zustand/react/shallow';
+import { getLesson, VisualProblem } from './data/curriculum';
+import { TranscriptSegment } from './types';
+import { FunctionResponse, LiveServerToolCall, LiveServerToolCallCancellation, Modality } from '@google/genai';
 import './App.scss';
 
+// The turn that goes with a new problem or "send to Pi", naming only the
+// images that were actually sent this time
+const describeVisionUpdate = (plan: VisionUpdatePlan) => {
+  if (plan.problemImage && plan.canvasImage) {
+    return "Hi Pi! I just sent you two images: (1) The math problem I'm working on, and (2) My current work on the canvas. Please look at both images and help guide me through this problem. Can you see what I've drawn so far?";
+  }
+  if (plan.problemImage) {
+    return "Hi Pi! I just sent you the math problem I'm working on - my canvas hasn't changed since you last saw it. Please look at the problem and help guide me through it.";
+  }
+  if (plan.canvasImage) {
+    return "Hi Pi! I just sent you my current work on the canvas - I'm still on the same problem. Please look at it and help guide me through this problem. Can you see what I've drawn so far?";
+  }
+  return 'Hi Pi! Please help guide me through this problem.';
+};
+
 // Main Simili App Component
 function SimiliApp() {
   const { client, setConfig, setModel, connect, disconnect, connected } = useLiveAPIContext();
   // Remove local isConnected state - use connected from context
   const [canvasImageData, setCanvasImageData] = useState<string>('');
   const debouncedCanvasData = useDebounce(canvasImageData, 2000); // Debounce canvas updates by 2 seconds
+  // Manipulatives aren't in the canvas JPEG, so their changes trigger updates too
+  const manipulatives = useManipulativeStore(state => state.manipulatives);
+  const debouncedManipulatives = useDebounce(manipulatives, 2000);
   const [problemImage, setProblemImage] = useState<string>('');
   const [showVoicePermission, setShowVoicePermission] = useState(false);
   const [showTeacherPanel, setShowTeacherPanel] = useState(false);
   const [selectedLesson, setSelectedLesson] = useState<string | null>(null);
+  // The client listeners below are only bound once, so they read the lesson from here
+  const selectedLessonRef = useRef<string | null>(null);
+  selectedLessonRef.current = selectedLesson;
+  const tutorSettings = useTutorSettingsStore(useShallow(selectTutorSettings));
+  // On a shared device, each student picks themselves before a lesson
+  const hasRoster = useStudentStore(state => state.students.length > 0);
+  const currentStudent = useStudentStore(selectCurrentStudent);
+  const selectStudent = useStudentStore(state => state.selectStudent);
   const [isManualDisconnect, setIsManualDisconnect] = useState(false);
   const [showTransition, setShowTransition] = useState(false);
+  // The lesson being moved into, until the transition hands it to selectedLesson
   const [transitionLesson, setTransitionLesson] = useState<string>('');
+  const transitionTitle = getLesson(transitionLesson)?.title || 'Math Adventures';
   const [currentTool, setCurrentTool] = useState<'pencil' | 'eraser' | 'text'>('pencil');
   const [currentColor, setCurrentColor] = useState('#2D3748');
   const [showLessonEntry, setShowLessonEntry] = useState(false);
   const [isProblemMinimized, setIsProblemMinimized] = useState(false);
 
   useEffect(() => {
-    // Configure Pi tutor with Gemini Live model
+    sessionRecorder.initStorage();
+  }, []);
+
+  useEffect(() => {
+    // Configure Pi tutor with Gemini Live model - applies from the next connect
     setModel("gemini-2.0-flash-live-001");
     setConfig({
       systemInstruction: {
-        parts: [{ text: PI_SYSTEM_INSTRUCTION }]
+        parts: [{ text: buildPiSystemInstruction(tutorSettings, selectedLesson ? getLesson(selectedLesson) : undefined) }]
       },
-      tools: [{ functionDeclarations: piToolDeclarations }],
-      responseModalities: [Modality.AUDIO]
+      tools: [{ functionDeclarations: buildPiToolDeclarations() }],
+      responseModalities: [Modality.AUDIO],
+      // Transcribe both sides so the session keeps the whole dialogue
+      inputAudioTranscription: {},
+      outputAudioTranscription: {}
     });
-  }, [setConfig, setModel]);
+  }, [setConfig, setModel, tutorSettings, selectedLesson]);
+
+  // The instruction can't change once connected, so tell Pi about changes instead
+  const sentSettingsRef = useRef(describeTutorSettings(tutorSettings));
+  useEffect(() => {
+    const described = describeTutorSettings(tutorSettings);
+    if (described === sentSettingsRef.current) return;
+    sentSettingsRef.current = described;
+    if (connected && client) {
+      client.send({ text: describeTutorSettingsChange(tutorSettings) }, false);
+    }
+  }, [tutorSettings, connected, client]);
 
   useEffect(() => {
     if (!client) return;
@@ -56,7 +119,14 @@ function SimiliApp() {
     const handleOpen = () => {
       console.log('Connected to Gemini Live');
       // Start session recording
-      sessionRecorder.startSession('pizza-fractions-1');
+      if (selectedLessonRef.current) {
+        sessionRecorder.startSession(
+          selectedLessonRef.current,
+          useStudentStore.getState().currentStudentId ?? undefined
+        );
+      }
+      // Fresh session - Pi needs the problem and canvas again
+      visionSync.reset();
     };
 
     const handleClose = (event: any) => {
@@ -90,39 +160,76 @@ function SimiliApp() {
       console.log('Gemini Live setup complete');
     };
 
-    const handleToolCallEvent = async (toolCall: any) => {
+    const handleToolCallEvent = async (toolCall: LiveServerToolCall) => {
       console.log('Tool call received:', toolCall);
       
-      // Handle multiple function calls
+      // Handle multiple function calls - every call must be answered, even
+      // on failure, or the live session keeps waiting on that id
       if (toolCall.functionCalls && toolCall.functionCalls.length > 0) {
-        const responses = [];
+        const responses: FunctionResponse[] = [];
         
         for (const functionCall of toolCall.functionCalls) {
-          const result = await handleToolCall(functionCall);
-          
-          if (result.response) {
-            responses.push({
-              id: functionCall.id,
-              name: functionCall.name,
-              response: result.response
-            });
+          let result: ToolCallResult;
+          try {
+            result = await handleToolCall(functionCall);
+          } catch (error) {
+            console.error('Tool call handler failed:', error);
+            result = {
+              response: {
+                success: false,
+                error: 'execution_failed',
+                message: error instanceof Error ? error.message : 'Unknown error'
+              },
+              error: 'Tool call handler failed'
+            };
           }
+          
+          // Cancelled calls have already been dropped by the server
+          if (result.cancelled) continue;
+          
+          responses.push({
+            id: functionCall.id,
+            name: functionCall.name,
+            response: result.response
+          });
         }
         
+        // Every call in the batch was cancelled - nothing is waiting on us
+        if (responses.length === 0) return;
+
         // Send all responses back to Gemini
-        if (responses.length > 0) {
-          client.sendToolResponse({
-            functionResponses: responses
-          });
-        }
+        client.sendToolResponse({
+          functionResponses: responses
+        });
       }
     };
 
+    const handleToolCallCancellation = (cancellation: LiveServerToolCallCancellation) => {
+      console.log('Tool call cancelled:', cancellation);
+      if (cancellation.ids && cancellation.ids.length > 0) {
+        cancelToolCalls(cancellation.ids);
+      }
+    };
+
+    const handleTranscript = (segment: TranscriptSegment) => {
+      sessionBus.emit({ type: 'transcript-received', segment });
+    };
+
+    // The live API rarely marks output transcription finished, so turn
+    // boundaries come from these instead
+    const handleTurnEnded = () => {
+      sessionBus.emit({ type: 'transcript-turn-ended' });
+    };
+
     client.on('open', handleOpen);
     client.on('close', handleClose);
     client.on('error', handleError);
     client.on('setupcomplete', handleSetupComplete);
     client.on('toolcall', handleToolCallEvent);
+    client.on('toolcallcancellation', handleToolCallCancellation);
+    client.on('transcript', handleTranscript);
+    client.on('turncomplete', handleTurnEnded);
+    client.on('interrupted', handleTurnEnded);
 
     return () => {
       client.off('open', handleOpen);
@@ -130,6 +237,10 @@ function SimiliApp() {
       client.off('error', handleError);
       client.off('setupcomplete', handleSetupComplete);
       client.off('toolcall', handleToolCallEvent);
+      client.off('toolcallcancellation', handleToolCallCancellation);
+      client.off('transcript', handleTranscript);
+      client.off('turncomplete', handleTurnEnded);
+      client.off('interrupted', handleTurnEnded);
     };
   }, [client]);
 
@@ -242,10 +353,9 @@ function SimiliApp() {
     console.log('Returned to lesson selection');
   };
 
-  const handleCanvasChange = (imageData: string) => {
-    console.log('Canvas change detected, image data length:', imageData.length);
+  const handleCanvasChange = useCallback((imageData: string) => {
     setCanvasImageData(imageData);
-  };
+  }, []);
 
   // Use effect to sync debounced canvas data
   useEffect(() => {
@@ -262,7 +372,7 @@ function SimiliApp() {
     } else {
       console.log('Vision sync skipped - missing requirements');
     }
-  }, [debouncedCanvasData, problemImage, connected, client]);
+  }, [debouncedCanvasData, debouncedManipulatives, problemImage, connected, client]);
 
   const handleProblemImageUpload = (imageData: string) => {
     setProblemImage(imageData);
@@ -271,94 +381,88 @@ function SimiliApp() {
     }
   };
 
-  const sendToVisionAPI = (problemImg: string, canvasImg: string) => {
+  // Only what changed since the last update goes to Pi: the problem image
+  // once per problem, the canvas when it visibly changed, and a text turn
+  // only for a new problem or when the student asks Pi to look
+  const sendToVisionAPI = async (problemImg: string, canvasImg: string, force = false) => {
     if (!client || !connected) {
       console.log('Vision API: Client not ready or not connected');
       return;
     }
     
     try {
-      // Convert data URLs to base64
-      const problemBase64 = problemImg.split(',')[1];
-      const canvasBase64 = canvasImg.split(',')[1];
-      
-      if (!problemBase64 || !canvasBase64) {
+      if (!problemImg.split(',')[1] || !canvasImg.split(',')[1]) {
         console.log('Vision API: Invalid image data', {
-          hasProblemData: !!problemBase64,
-          hasCanvasData: !!canvasBase64,
           problemImgStart: problemImg?.substring(0, 50),
           canvasImgStart: canvasImg?.substring(0, 50)
         });
         return;
       }
-      
-      console.log('Vision API: Sending problem and canvas images to Pi...');
-      console.log('Problem image size:', problemBase64.length, 'bytes');
-      console.log('Canvas image size:', canvasBase64.length, 'bytes');
-      console.log('Problem image type:', problemImg.split(',')[0]);
-      console.log('Canvas image type:', canvasImg.split(',')[0]);
-      
-      // Send both images with clear labels in one call
-      client.sendRealtimeInput([
-        {
-          mimeType: 'image/jpeg',
-          data: problemBase64
-        },
-        {
-          mimeType: 'image/jpeg', 
-          data: canvasBase64
-        }
-      ]);
-      
-      console.log('Vision API: Successfully sent both images to Pi');
-      
-      // Also send a clear context message to help Pi understand
-      setTimeout(() => {
-        if (client && connected) {
-          client.send({
-            text: "Hi Pi! I just sent you two images: (1) The math problem I'm working on, and (2) My current work on the canvas. Please look at both images and help guide me through this problem. Can you see what I've drawn so far?"
-          });
-        }
-      }, 200);
+
+      const plan = await visionSync.plan(problemImg, canvasImg, force);
+      if (!plan) {
+        console.log('Vision API: Canvas unchanged, nothing sent');
+        return;
+      }
+
+      const images = [plan.problemImage, plan.canvasImage]
+        .filter((data): data is string => !!data)
+        .map(data => ({ mimeType: 'image/jpeg', data }));
+      if (plan.canvasImage) {
+        // Keep what Pi saw for the session record
+        sessionBus.emit({ type: 'canvas-snapshot', snapshot: canvasImg });
+      }
+      if (images.length > 0) {
+        client.sendRealtimeInput(images);
+        console.log('Vision API: Sent', images.length, 'image(s) to Pi', {
+          problem: !!plan.problemImage,
+          canvas: !!plan.canvasImage
+        });
+      }
+
+      if (plan.firstForProblem || force) {
+        // Help Pi understand what it's looking at, and when it's done
+        const problem = useProblemStore.getState().currentProblem;
+        const criteria = problem
+          ? `\n\nThis problem is done when I: ${problem.successCriteria.join('; ')}` +
+            (problem.hints ? `\nIf I get stuck, these hints fit it: ${problem.hints.join('; ')}` : '')
+          : '';
+        setTimeout(() => {
+          if (client && connected) {
+            client.send({
+              text: `${describeVisionUpdate(plan)}\n\n` +
+                `Exactly what's on my canvas right now:\n${plan.canvasDescription}` +
+                criteria
+            });
+          }
+        }, 200);
+      } else if (plan.canvasDescription) {
+        // Incremental update - context only, no turn for Pi to answer
+        client.send({ text: `Canvas update:\n${plan.canvasDescription}` }, false);
+      }
       
     } catch (error) {
       console.error('Error sending images to vision API:', error);
     }
   };
 
+  // Stable so ProblemDisplay doesn't reload the lesson on every render
+  const handleProblemChange = useCallback((problem: VisualProblem, transition?: ProblemTransition) => {
+    sessionRecorder.setCurrentProblem(problem.id, transition);
+  }, []);
+
   const handleLessonSelect = (lessonId: string) => {
     console.log('Lesson selected:', lessonId);
-    const lessons = [
-      { id: 'intro-fractions', title: 'Parts & Wholes' },
-      { id: 'equivalent-fractions', title: 'Same Amount, Different Ways' },
-      { id: 'comparing-fractions', title: 'Bigger or Smaller?' },
-      { id: 'fractions-number-line', title: 'Finding Your Spot' },
-      { id: 'unit-fractions', title: 'Special One-Pieces' },
-      { id: 'fraction-word-problems', title: 'Real-Life Stories' }
-    ];
-    
-    const lesson = lessons.find(l => l.id === lessonId);
-    console.log('Found lesson:', lesson);
-    setTransitionLesson(lesson?.title || 'Math Adventures');
+    setTransitionLesson(lessonId);
     setShowTransition(true);
     setIsManualDisconnect(false);
-    console.log('Starting transition for:', lesson?.title);
+    console.log('Starting transition for:', getLesson(lessonId)?.title);
   };
 
   const handleTransitionComplete = () => {
     console.log('Transition completed, showing lesson entry popup...');
     setShowTransition(false);
-    // Find the lesson ID from the title to set selected lesson properly
-    const lessons = [
-      { id: 'intro-fractions', title: 'Parts & Wholes' },
-      { id: 'equivalent-fractions', title: 'Same Amount, Different Ways' },
-      { id: 'comparing-fractions', title: 'Bigger or Smaller?' },
-      { id: 'fractions-number-line', title: 'Finding Your Spot' },
-      { id: 'unit-fractions', title: 'Special One-Pieces' },
-      { id: 'fraction-word-problems', title: 'Real-Life Stories' }
-    ];
-    const lesson = lessons.find(l => l.title === transitionLesson);
-    setSelectedLesson(lesson?.id || 'intro-fractions');
+    setSelectedLesson(transitionLesson);
     // Show lesson entry popup instead of auto-connecting
     setShowLessonEntry(true);
   };
@@ -366,7 +470,7 @@ function SimiliApp() {
   const handleManualSendToPi = () => {
     if (canvasImageData && problemImage) {
       console.log('Manual send to Pi requested');
-      sendToVisionAPI(problemImage, canvasImageData);
+      sendToVisionAPI(problemImage, canvasImageData, true);
     } else {
       console.log('Manual send failed - missing canvas or problem image');
     }
@@ -432,17 +536,33 @@ function SimiliApp() {
   return (
     <div className="simili-app" style={{ backgroundColor: designSystem.colors.paper }}>
       {connected && <ToolCallFeedback />}
+      {connected && <CelebrationLayer />}
       <header className="simili-header">
         <h1 className="simili-title">Simili</h1>
+        {currentStudent && (
+          <div className="simili-student">
+            <span className="simili-student__avatar">{currentStudent.avatar}</span>
+            <span className="simili-student__name">{currentStudent.name}</span>
+            {!selectedLesson && !showTransition && (
+              <button className="simili-student__switch" onClick={() => selectStudent(null)}>
+                Not you?
+              </button>
+            )}
+          </div>
+        )}
       </header>
 
       <main className="simili-main">
         {!selectedLesson && !showTransition ? (
-          <LessonHomepage onLessonSelect={handleLessonSelect} />
+          hasRoster && !currentStudent ? (
+            <StudentPicker />
+          ) : (
+            <LessonHomepage onLessonSelect={handleLessonSelect} />
+          )
         ) : showTransition ? (
           <LessonTransition 
             isActive={showTransition}
-            lessonTitle={transitionLesson}
+            lessonTitle={transitionTitle}
             onComplete={handleTransitionComplete}
           />
         ) : (
@@ -466,36 +586,40 @@ function SimiliApp() {
               <div className={`floating-problem-card ${isProblemMinimized ? 'minimized' : ''}`}
                 onClick={() => isProblemMinimized && setIsProblemMinimized(false)}>
                 {!isProblemMinimized && (
-                  <>
-                    <button 
-                      className="minimize-btn"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setIsProblemMinimized(true);
-                      }}
-                    >
-                      −
-                    </button>
-                    <div className="problem-content">
-                      <ProblemDisplay 
-                        onImageUpload={handleProblemImageUpload}
-                        lessonId={selectedLesson || undefined}
-                      />
-                      <button 
-                        className="end-session-btn" 
-                        onClick={() => {
-                          if (window.confirm('End your adventure with Pi? 🚀\n\nYour thinking will be saved!')) {
-                            handleDisconnect();
-                          }
-                        }}
-                      >
-                        End Adventure
-                      </button>
-                    </div>
-                  </>
+                  <button 
+                    className="minimize-btn"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsProblemMinimized(true);
+                    }}
+                  >
+                    −
+                  </button>
                 )}
+                {/* Only hidden when minimized - ProblemDisplay draws and sends
+                    each new problem, and remounting would restart the lesson */}
+                <div className="problem-content">
+                  <ProblemDisplay 
+                    onImageUpload={handleProblemImageUpload}
+                    lessonId={selectedLesson || undefined}
+                    onProblemChange={handleProblemChange}
+                  />
+                  <button 
+                    className="end-session-btn" 
+                    onClick={() => {
+                      if (window.confirm('End your adventure with Pi? 🚀\n\nYour thinking will be saved!')) {
+                        handleDisconnect();
+                      }
+                    }}
+                  >
+                    End Adventure
+                  </button>
+                </div>
               </div>
 
+              {/* Pi's visual hints and worked examples */}
+              <HintCard />
+
               {/* Floating mini toolbar */}
               <div className="floating-toolbar">
                 {/* Drawing tools */}
@@ -555,16 +679,16 @@ function SimiliApp() {
                 </span>
               </div>
             </div>
-
-            {/* Teacher panel */}
-            <TeacherPanel 
-              isOpen={showTeacherPanel}
-              onToggle={() => setShowTeacherPanel(!showTeacherPanel)}
-            />
           </div>
         )}
       </main>
 
+      {/* Teacher panel - also on the homepage, where the roster is managed */}
+      <TeacherPanel 
+        isOpen={showTeacherPanel}
+        onToggle={() => setShowTeacherPanel(!showTeacherPanel)}
+      />
+
       <VoicePermissionModal
         isOpen={showVoicePermission}
         onAllow={handleVoiceAllow}
@@ -573,7 +697,7 @@ function SimiliApp() {
 
       <LessonEntryPopup
         isOpen={showLessonEntry}
-        lessonTitle={transitionLesson}
+        lessonTitle={transitionTitle}
         onStart={handleLessonEntryStart}
         onCancel={handleLessonEntryCancel}
       />
@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import rough from 'roughjs';
+import { motion, AnimatePresence } from 'framer-motion';
+import { designSystem } from '../config/designSystem';
+import { CanvasAnnotation } from '../lib/toolImplementations';
+import { useSessionEvent } from '../hooks/useSessionEvent';
+import './AnnotationOverlay.scss';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface AnnotationOverlayProps {
+  width: number;
+  height: number;
+  lifetimeMs?: number;
+}
+
+// How long Pi's annotations stay on the canvas before fading out
+const DEFAULT_LIFETIME_MS = 8000;
+const HIT_PADDING = 12;
+
+// Pi reads positions off the JPEG we send, which is scaled by the device
+// pixel ratio, and sometimes answers in 0-1 fractions instead of pixels.
+// Normalise everything to the canvas' CSS pixel space.
+const toCanvasPoints = (points: Point[], width: number, height: number): Point[] => {
+  if (points.length === 0) return points;
+
+  const maxX = Math.max(...points.map(p => p.x));
+  const maxY = Math.max(...points.map(p => p.y));
+  const dpr = window.devicePixelRatio || 1;
+
+  let scaleX = 1;
+  let scaleY = 1;
+  if (maxX <= 1 && maxY <= 1) {
+    scaleX = width;
+    scaleY = height;
+  } else if ((maxX > width || maxY > height) && maxX <= width * dpr && maxY <= height * dpr) {
+    scaleX = 1 / dpr;
+    scaleY = 1 / dpr;
+  }
+
+  return points.map(p => ({
+    x: Math.min(width, Math.max(0, p.x * scaleX)),
+    y: Math.min(height, Math.max(0, p.y * scaleY))
+  }));
+};
+
+const getBounds = (points: Point[]) => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys)
+  };
+};
+
+// Expand a single point into something drawable for each annotation type
+const getShapePoints = (type: CanvasAnnotation['type'], points: Point[]): Point[] => {
+  if (points.length > 1) return points;
+  const [p] = points;
+  switch (type) {
+    case 'arrow': return [{ x: p.x - 50, y: p.y - 50 }, p];
+    case 'circle': return [{ x: p.x - 30, y: p.y - 30 }, { x: p.x + 30, y: p.y + 30 }];
+    case 'underline': return [{ x: p.x - 40, y: p.y }, { x: p.x + 40, y: p.y }];
+  }
+};
+
+interface AnnotationShapeProps {
+  annotation: CanvasAnnotation;
+  width: number;
+  height: number;
+  svgRef: React.RefObject<SVGSVGElement>;
+  onDismiss: (id: string) => void;
+}
+
+const AnnotationShape: React.FC<AnnotationShapeProps> = ({ annotation, width, height, svgRef, onDismiss }) => {
+  const groupRef = useRef<SVGGElement>(null);
+  // Memoised so rough.js doesn't re-jitter the shape on every render
+  const points = useMemo(
+    () => getShapePoints(annotation.type, toCanvasPoints(annotation.coordinates, width, height)),
+    [annotation, width, height]
+  );
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    const group = groupRef.current;
+    if (!svg || !group || points.length === 0) return;
+
+    const rc = rough.svg(svg);
+    const options = {
+      stroke: annotation.color,
+      strokeWidth: 3,
+      roughness: designSystem.roughness.normal,
+      bowing: 1.5
+    };
+    group.innerHTML = '';
+
+    if (annotation.type === 'arrow') {
+      const from = points[0];
+      const to = points[points.length - 1];
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      const headLength = 16;
+      group.appendChild(
+        points.length > 2
+          ? rc.curve(points.map(p => [p.x, p.y] as [number, number]), options)
+          : rc.line(from.x, from.y, to.x, to.y, options)
+      );
+      [-Math.PI / 6, Math.PI / 6].forEach(offset => {
+        group.appendChild(rc.line(
+          to.x,
+          to.y,
+          to.x - headLength * Math.cos(angle + offset),
+          to.y - headLength * Math.sin(angle + offset),
+          options
+        ));
+      });
+    } else if (annotation.type === 'circle') {
+      const { minX, minY, maxX, maxY } = getBounds(points);
+      group.appendChild(rc.ellipse(
+        (minX + maxX) / 2,
+        (minY + maxY) / 2,
+        Math.max(maxX - minX, 20) + 20,
+        Math.max(maxY - minY, 20) + 20,
+        options
+      ));
+    } else {
+      group.appendChild(rc.linearPath(points.map(p => [p.x, p.y] as [number, number]), options));
+    }
+  }, [annotation, points, svgRef]);
+
+  const { minX, minY, maxX, maxY } = getBounds(points);
+
+  return (
+    <motion.g
+      className="annotation-overlay__annotation"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.6 }}
+      onClick={() => onDismiss(annotation.id)}
+      onTouchStart={() => onDismiss(annotation.id)}
+    >
+      {/* Tap target - strokes alone are too thin for small fingers */}
+      <rect
+        className="annotation-overlay__hit-area"
+        x={minX - HIT_PADDING}
+        y={minY - HIT_PADDING}
+        width={maxX - minX + HIT_PADDING * 2}
+        height={maxY - minY + HIT_PADDING * 2}
+      />
+      <g ref={groupRef} />
+      {annotation.message && (
+        <text
+          className="annotation-overlay__message"
+          x={minX}
+          y={Math.max(16, minY - HIT_PADDING - 4)}
+          fill={annotation.color}
+          fontFamily={designSystem.fonts.handwritten}
+        >
+          {annotation.message}
+        </text>
+      )}
+    </motion.g>
+  );
+};
+
+// Pi's annotate_canvas guidance, drawn above the student's work. Lives in
+// its own SVG so it never becomes part of the student's strokes or the
+// canvas snapshots we send back to Pi.
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
+  width,
+  height,
+  lifetimeMs = DEFAULT_LIFETIME_MS
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [annotations, setAnnotations] = useState<CanvasAnnotation[]>([]);
+  const timersRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+
+  const removeAnnotation = useCallback((id: string) => {
+    const timer = timersRef.current.get(id);
+    if (timer) clearTimeout(timer);
+    timersRef.current.delete(id);
+    setAnnotations(prev => prev.filter(a => a.id !== id));
+  }, []);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  useSessionEvent('canvas-annotation', ({ annotation }) => {
+    if (!annotation.coordinates || annotation.coordinates.length === 0) return;
+
+    setAnnotations(prev => [...prev.filter(a => a.id !== annotation.id), annotation]);
+    // Re-added under the same id - the old timer would cut the new one short
+    const existing = timersRef.current.get(annotation.id);
+    if (existing) clearTimeout(existing);
+    timersRef.current.set(annotation.id, setTimeout(() => removeAnnotation(annotation.id), lifetimeMs));
+  });
+
+  // Pi cancelled the annotate_canvas call
+  useSessionEvent('canvas-annotation-removed', ({ id }) => removeAnnotation(id));
+
+  return (
+    <svg
+      ref={svgRef}
+      className="annotation-overlay"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      <AnimatePresence>
+        {annotations.map(annotation => (
+          <AnnotationShape
+            key={annotation.id}
+            annotation={annotation}
+            width={width}
+            height={height}
+            svgRef={svgRef}
+            onDismiss={removeAnnotation}
+          />
+        ))}
+      </AnimatePresence>
+    </svg>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import rough from 'roughjs';
+import { motion, AnimatePresence, TargetAndTransition, useReducedMotion } from 'framer-motion';
+import { designSystem } from '../config/designSystem';
+import { CelebrationAnimation } from '../lib/toolImplementations';
+import { useTutorSettingsStore } from '../lib/tutorSettings';
+import { useSessionEvent } from '../hooks/useSessionEvent';
+import './CelebrationLayer.scss';
+
+interface ActiveCelebration {
+  id: string;
+  message: string;
+  animation: CelebrationAnimation;
+}
+
+const CELEBRATION_DURATION_MS = 2800;
+const SPARKLE_COUNT = 8;
+
+const mistakeMessages = [
+  'Ooh, great try! 🌟',
+  'Mistakes help our brains grow! 🧠',
+  'Interesting idea - let\'s dig in! 🔍'
+];
+
+// Five-pointed star, centred on (cx, cy)
+const starPoints = (cx: number, cy: number, outer: number, inner: number): [number, number][] =>
+  Array.from({ length: 10 }, (_, i) => {
+    const radius = i % 2 === 0 ? outer : inner;
+    const angle = (Math.PI / 5) * i - Math.PI / 2;
+    return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+  });
+
+const SketchyStar: React.FC<{ size: number; color: string }> = ({ size, color }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    svg.innerHTML = '';
+    const rc = rough.svg(svg);
+    svg.appendChild(rc.polygon(starPoints(size / 2, size / 2, size / 2 - 2, size / 5), {
+      fill: color,
+      fillStyle: 'solid',
+      stroke: designSystem.colors.ink,
+      strokeWidth: 1.5,
+      roughness: designSystem.roughness.normal
+    }));
+  }, [size, color]);
+
+  return <svg ref={svgRef} width={size} height={size} />;
+};
+
+const SketchyBurst: React.FC = () => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    svg.innerHTML = '';
+    const rc = rough.svg(svg);
+    svg.appendChild(rc.circle(110, 110, 200, {
+      stroke: designSystem.colors.success,
+      strokeWidth: 3,
+      roughness: designSystem.roughness.playful
+    }));
+  }, []);
+
+  return <svg ref={svgRef} className="celebration-layer__burst" width={220} height={220} />;
+};
+
+const sparkleColors = [designSystem.colors.warning, designSystem.colors.fills.exploring, designSystem.colors.fills.correct];
+
+const Sparkles: React.FC = () => (
+  <>
+    {Array.from({ length: SPARKLE_COUNT }, (_, i) => {
+      const angle = (i / SPARKLE_COUNT) * Math.PI * 2;
+      const distance = 120 + (i % 3) * 30;
+      return (
+        <motion.div
+          key={i}
+          className="celebration-layer__sparkle"
+          initial={{ x: 0, y: 0, scale: 0, opacity: 0 }}
+          animate={{
+            x: Math.cos(angle) * distance,
+            y: Math.sin(angle) * distance,
+            scale: [0, 1.2, 0.8],
+            opacity: [0, 1, 0],
+            rotate: 90
+          }}
+          transition={{ duration: 1.6, delay: i * 0.06, ease: 'easeOut' }}
+        >
+          <SketchyStar size={28 + (i % 3) * 6} color={sparkleColors[i % sparkleColors.length]} />
+        </motion.div>
+      );
+    })}
+  </>
+);
+
+const messageAnimations: Record<CelebrationAnimation, TargetAndTransition> = {
+  sparkle: { scale: [0.8, 1.05, 1], opacity: 1 },
+  grow: { scale: [0.3, 1.2, 1], opacity: 1 },
+  bounce: { y: [0, -30, 0, -15, 0], opacity: 1 }
+};
+
+// Full-screen layer for celebrate_exploration and celebrate-mistake. The
+// teacher can tone it down to a quiet message, or turn it off.
+export const CelebrationLayer: React.FC = () => {
+  const mode = useTutorSettingsStore(state => state.celebrations);
+  const prefersReducedMotion = useReducedMotion();
+  const [active, setActive] = useState<ActiveCelebration | null>(null);
+  const timerRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  const show = (celebration: ActiveCelebration) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setActive(celebration);
+    timerRef.current = setTimeout(() => setActive(null), CELEBRATION_DURATION_MS);
+  };
+
+  const hide = (id: string) => {
+    setActive(prev => (prev && prev.id === id ? null : prev));
+  };
+
+  useSessionEvent('celebrate-exploration', ({ celebration }) => {
+    const { id, message, animation } = celebration;
+    show({ id, message, animation });
+  });
+
+  useSessionEvent('celebrate-mistake', ({ step }) => {
+    show({
+      id: step.id,
+      message: mistakeMessages[Math.floor(Math.random() * mistakeMessages.length)],
+      animation: 'bounce'
+    });
+  });
+
+  // Pi cancelled the call that triggered the celebration
+  useSessionEvent('celebration-cancelled', ({ id }) => hide(id));
+  useSessionEvent('reasoning-step-removed', ({ id }) => hide(id));
+
+  if (mode === 'off') return null;
+
+  const gentle = mode === 'gentle' || prefersReducedMotion;
+
+  return (
+    <div className="celebration-layer" aria-live="polite">
+      <AnimatePresence>
+        {active && (
+          <motion.div
+            key={active.id}
+            className={`celebration-layer__stage ${gentle ? 'celebration-layer__stage--gentle' : ''}`}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            {!gentle && active.animation === 'sparkle' && <Sparkles />}
+            {!gentle && active.animation === 'grow' && (
+              <motion.div
+                initial={{ scale: 0.2, opacity: 0.8 }}
+                animate={{ scale: 1.4, opacity: 0 }}
+                transition={{ duration: 1.2, ease: 'easeOut' }}
+              >
+                <SketchyBurst />
+              </motion.div>
+            )}
+
+            <motion.div
+              className="celebration-layer__message"
+              initial={{ opacity: 0, scale: gentle ? 1 : 0.8 }}
+              animate={gentle ? { opacity: 1 } : messageAnimations[active.animation]}
+              transition={{ duration: gentle ? 0.4 : 0.9, ease: 'easeOut' }}
+            >
+              {active.message}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { useLiveAPIContext } from '../contexts/LiveAPIContext';
+import { sessionBus } from '../lib/sessionBus';
 import './DrawingCanvas.scss';
 
 interface Point {
@@ -39,7 +40,7 @@ export function DrawingCanvas() {
     }]);
     
     // Emit event for session recording
-    window.dispatchEvent(new CustomEvent('canvas-snapshot', { detail: base64 }));
+    sessionBus.emit({ type: 'canvas-snapshot', snapshot: base64 });
     
     console.log('Sent canvas snapshot to Gemini');
   }, [client, connected]);
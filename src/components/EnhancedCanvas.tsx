@@ -1,4 +1,5 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { summarizeStrokes, useStrokeSummaryStore } from '../lib/canvasState';
 import './EnhancedCanvas.scss';
 
 interface Point {
@@ -49,6 +50,10 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
   const currentStrokeRef = useRef<Point[]>([]);
   const animationFrameRef = useRef<number>();
   const lastPointRef = useRef<Point | null>(null);
+  // Held in a ref so a new callback from the parent doesn't re-initialise
+  // the canvas or trigger another snapshot
+  const onCanvasChangeRef = useRef(onCanvasChange);
+  onCanvasChangeRef.current = onCanvasChange;
 
   // Initialize canvas context
   useEffect(() => {
@@ -75,15 +80,7 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
     
     redrawCanvas();
     
-    // Send initial blank canvas
-    setTimeout(() => {
-      if (onCanvasChange) {
-        const imageData = canvas.toDataURL('image/jpeg', 0.8);
-        onCanvasChange(imageData);
-        console.log('Initial blank canvas sent to Pi');
-      }
-    }, 100);
-  }, [width, height, onCanvasChange]);
+  }, [width, height]);
 
   // Redraw entire canvas
   const redrawCanvas = useCallback(() => {
@@ -107,17 +104,21 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
       drawText(context, text);
     });
 
-    // Notify parent of changes
-    if (onCanvasChange) {
-      const imageData = canvas.toDataURL('image/jpeg', 0.8);
-      onCanvasChange(imageData);
+    // Notify parent of changes - this is the one place snapshots are taken
+    if (onCanvasChangeRef.current) {
+      onCanvasChangeRef.current(canvas.toDataURL('image/jpeg', 0.8));
     }
-  }, [strokes, textElements, width, height, background, onCanvasChange]);
+  }, [strokes, textElements, width, height, background]);
 
   useEffect(() => {
     redrawCanvas();
   }, [redrawCanvas]);
 
+  // Structured summary of the drawing, sent to Pi alongside the snapshot
+  useEffect(() => {
+    useStrokeSummaryStore.getState().setSummary(summarizeStrokes(strokes, textElements));
+  }, [strokes, textElements]);
+
 
   const drawBackground = (ctx: CanvasRenderingContext2D) => {
     // Fill with paper color
@@ -265,26 +266,13 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
         tool: currentTool as 'pencil' | 'eraser'
       };
       
-      setStrokes(prev => {
-        const newStrokes = [...prev, newStroke];
-        
-        // Immediately send canvas update after stroke is complete
-        setTimeout(() => {
-          const canvas = canvasRef.current;
-          if (canvas && onCanvasChange) {
-            const imageData = canvas.toDataURL('image/jpeg', 0.8);
-            onCanvasChange(imageData);
-            console.log('Canvas updated and sent to Pi');
-          }
-        }, 50); // Small delay to ensure stroke is fully rendered
-        
-        return newStrokes;
-      });
+      // The redraw this triggers sends the updated canvas
+      setStrokes(prev => [...prev, newStroke]);
       currentStrokeRef.current = [];
     }
     
     lastPointRef.current = null;
-  }, [isDrawing, currentColor, strokeWidth, currentTool, onCanvasChange]);
+  }, [isDrawing, currentColor, strokeWidth, currentTool]);
 
   const handleTextSubmit = (text: string) => {
     if (textInput && text.trim()) {
@@ -295,21 +283,7 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
         color: currentColor,
         fontSize: 16
       };
-      setTextElements(prev => {
-        const newElements = [...prev, newText];
-        
-        // Send canvas update after text is added
-        setTimeout(() => {
-          const canvas = canvasRef.current;
-          if (canvas && onCanvasChange) {
-            const imageData = canvas.toDataURL('image/jpeg', 0.8);
-            onCanvasChange(imageData);
-            console.log('Canvas text updated and sent to Pi');
-          }
-        }, 50);
-        
-        return newElements;
-      });
+      setTextElements(prev => [...prev, newText]);
     }
     setTextInput(null);
   };
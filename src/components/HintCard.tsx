@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import FractionCircles from './manipulatives/FractionCircles';
+import GameFractionBar from './manipulatives/GameFractionBar';
+import { Hint } from '../lib/toolImplementations';
+import { useSessionEvent } from '../hooks/useSessionEvent';
+import './HintCard.scss';
+
+const noop = () => {};
+
+// Shows Pi's visual hints (a ghosted manipulative) and worked examples
+// (revealed one step at a time) next to the student's workspace
+export const HintCard: React.FC = () => {
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [revealedSteps, setRevealedSteps] = useState(1);
+
+  useSessionEvent('visual-hint-requested', event => {
+    setHint(event.hint);
+    setRevealedSteps(1);
+  });
+
+  // Pi cancelled the suggest_hint call
+  useSessionEvent('visual-hint-dismissed', ({ id }) => {
+    setHint(prev => (prev && prev.id === id ? null : prev));
+  });
+
+  const steps = hint?.steps || [];
+  const hasMoreSteps = revealedSteps < steps.length;
+
+  return (
+    <AnimatePresence>
+      {hint && (
+        <motion.div
+          key={hint.id}
+          className={`hint-card hint-card--${hint.level}`}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          transition={{ type: 'spring', damping: 20, stiffness: 260 }}
+        >
+          <div className="hint-card__header">
+            <span className="hint-card__icon">💡</span>
+            <span className="hint-card__title">
+              {hint.level === 'worked_example' ? "Let's try it together" : 'Pi has an idea'}
+            </span>
+            <button
+              className="hint-card__close"
+              onClick={() => setHint(null)}
+              title="Close hint"
+            >
+              ✕
+            </button>
+          </div>
+
+          {hint.level === 'visual_hint' && (
+            <>
+              <p className="hint-card__content">{hint.content}</p>
+              {hint.manipulative && (
+                <div className="hint-card__ghost" aria-hidden="true">
+                  {hint.manipulative.type === 'fraction-circles' && (
+                    <FractionCircles
+                      parts={hint.manipulative.parts}
+                      shaded={hint.manipulative.shaded}
+                      onChange={noop}
+                    />
+                  )}
+                  {hint.manipulative.type === 'fraction-bar' && (
+                    <GameFractionBar
+                      parts={hint.manipulative.parts}
+                      shaded={hint.manipulative.shaded}
+                      onChange={noop}
+                    />
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {hint.level === 'worked_example' && (
+            <>
+              <ol className="hint-card__steps">
+                {steps.slice(0, revealedSteps).map((step, i) => (
+                  <motion.li
+                    key={i}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                  >
+                    {step}
+                  </motion.li>
+                ))}
+              </ol>
+              {hasMoreSteps && (
+                <button
+                  className="hint-card__next"
+                  onClick={() => setRevealedSteps(prev => prev + 1)}
+                >
+                  Next step →
+                </button>
+              )}
+            </>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,84 +1,13 @@
 import React from 'react';
 import './LessonHomepage.scss';
-
-interface Lesson {
-  id: string;
-  title: string;
-  subtitle: string;
-  grade: string;
-  unit: string;
-  image: string;
-  active: boolean;
-  description: string;
-}
+import { curriculum } from '../data/curriculum';
 
 interface LessonHomepageProps {
   onLessonSelect: (lessonId: string) => void;
 }
 
 const LessonHomepage: React.FC<LessonHomepageProps> = ({ onLessonSelect }) => {
-  const lessons: Lesson[] = [
-    {
-      id: 'intro-fractions',
-      title: 'Parts & Wholes',
-      subtitle: 'Share pizza like a pro! 🍕',
-      grade: 'Grade 3',
-      unit: 'Unit 5',
-      image: '🍕',
-      active: true,
-      description: 'Pizza time! Learn by playing with yummy treats!'
-    },
-    {
-      id: 'equivalent-fractions',
-      title: 'Same Amount, Different Ways',
-      subtitle: 'Cool magic tricks! ✨',
-      grade: 'Grade 3',
-      unit: 'Unit 5',
-      image: '🍰',
-      active: false,
-      description: '1/2 = 2/4? Mind = blown! 🤯'
-    },
-    {
-      id: 'comparing-fractions',
-      title: 'Bigger or Smaller?',
-      subtitle: 'Be a detective! 🕵️',
-      grade: 'Grade 3',
-      unit: 'Unit 5',
-      image: '🍪',
-      active: false,
-      description: 'Which piece wins? You decide!'
-    },
-    {
-      id: 'fractions-number-line',
-      title: 'Finding Your Spot',
-      subtitle: 'Treasure hunt time! 🗺️',
-      grade: 'Grade 3',
-      unit: 'Unit 5',
-      image: '📏',
-      active: false,
-      description: 'Every number has its secret hiding spot!'
-    },
-    {
-      id: 'unit-fractions',
-      title: 'Special One-Pieces',
-      subtitle: 'Like LEGO blocks! 🧱',
-      grade: 'Grade 3',
-      unit: 'Unit 5',
-      image: '🧱',
-      active: false,
-      description: 'The super important building blocks!'
-    },
-    {
-      id: 'fraction-word-problems',
-      title: 'Real-Life Stories',
-      subtitle: 'Math everywhere! 🌍',
-      grade: 'Grade 3',
-      unit: 'Unit 5',
-      image: '📝',
-      active: false,
-      description: 'Math is hiding all around us!'
-    }
-  ];
+  const { lessons } = curriculum;
 
   // Get current lesson (first available one) and other lessons
   const currentLesson = lessons.find(lesson => lesson.active) || lessons[0];
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ConceptMastery, MASTERED_THRESHOLD, STRUGGLING_THRESHOLD } from '../lib/masteryModel';
+import './MasteryChart.scss';
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 8;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Mastery after each practice, with its interval as a band. Evenly spaced
+// by practice rather than by date, so a busy session doesn't bunch up.
+const HistoryChart: React.FC<{ concept: ConceptMastery }> = ({ concept }) => {
+  const points = [...concept.history, concept];
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const x = (i: number) => CHART_PADDING + (points.length > 1 ? (i / (points.length - 1)) * innerWidth : innerWidth / 2);
+  const y = (value: number) => CHART_PADDING + (1 - value) * innerHeight;
+
+  const line = points.map((p, i) => `${x(i)},${y(p.mastery)}`).join(' ');
+  const band = [
+    ...points.map((p, i) => `${x(i)},${y(p.upper)}`),
+    ...points.map((p, i) => `${x(i)},${y(p.lower)}`).reverse()
+  ].join(' ');
+
+  return (
+    <div className="mastery-chart__history">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="mastery-chart__svg">
+        <line
+          className="mastery-chart__threshold mastery-chart__threshold--mastered"
+          x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING}
+          y1={y(MASTERED_THRESHOLD)} y2={y(MASTERED_THRESHOLD)}
+        />
+        <line
+          className="mastery-chart__threshold mastery-chart__threshold--struggling"
+          x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING}
+          y1={y(STRUGGLING_THRESHOLD)} y2={y(STRUGGLING_THRESHOLD)}
+        />
+        <polygon className="mastery-chart__band" points={band} />
+        <polyline className="mastery-chart__line" points={line} />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            className={`mastery-chart__point ${i === points.length - 1 ? 'mastery-chart__point--now' : ''}`}
+            cx={x(i)}
+            cy={y(p.mastery)}
+            r={3}
+          >
+            <title>{`${i === points.length - 1 ? 'Today' : formatDate(p.timestamp)}: ${percent(p.mastery)} (${percent(p.lower)}-${percent(p.upper)})`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="mastery-chart__axis">
+        <span>{formatDate(concept.history[0]?.timestamp ?? concept.timestamp)}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+};
+
+// Each concept's estimated mastery with a 95% interval; pick one to see how
+// it got there
+const MasteryChart: React.FC<{ concepts: ConceptMastery[] }> = ({ concepts }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const selectedConcept = concepts.find(c => c.concept === selected);
+
+  return (
+    <div className="mastery-chart">
+      {concepts.map(concept => (
+        <button
+          key={concept.concept}
+          className={`mastery-chart__row ${concept.concept === selected ? 'mastery-chart__row--selected' : ''}`}
+          onClick={() => setSelected(prev => (prev === concept.concept ? null : concept.concept))}
+        >
+          <span className="mastery-chart__concept">{concept.concept}</span>
+          <span className="mastery-chart__track">
+            <span
+              className="mastery-chart__interval"
+              style={{ left: percent(concept.lower), width: percent(concept.upper - concept.lower) }}
+            />
+            <span className="mastery-chart__estimate" style={{ left: percent(concept.mastery) }} />
+          </span>
+          <span className="mastery-chart__value" title={`95% interval ${percent(concept.lower)}-${percent(concept.upper)}`}>
+            {percent(concept.mastery)}
+          </span>
+        </button>
+      ))}
+
+      {selectedConcept && <HistoryChart concept={selectedConcept} />}
+    </div>
+  );
+};
+
+export default MasteryChart;
@@ -1,33 +1,41 @@
 import React, { useState, useRef, useEffect } from 'react';
 import './ProblemDisplay.scss';
 import { SketchyButton } from './ui/SketchyButton';
-import { VisualProblem, getStartingProblem, getNextProblem } from '../data/adaptiveProblems';
+import { VisualProblem } from '../data/curriculum';
+import type { ProblemTransition } from '../lib/sessionRecorder';
+import { sessionStore } from '../lib/toolImplementations';
+import { reasoningShowsSuccess, useProblemStore } from '../lib/problemStore';
 
 interface ProblemDisplayProps {
   onImageUpload: (imageData: string) => void;
   lessonId?: string;
-  onProblemChange?: (problem: VisualProblem) => void;
+  // `transition` is set when the student moved on via getNextProblem
+  onProblemChange?: (problem: VisualProblem, transition?: ProblemTransition) => void;
 }
 
 const ProblemDisplay: React.FC<ProblemDisplayProps> = ({ onImageUpload, lessonId, onProblemChange }) => {
   const [problemImage, setProblemImage] = useState<string | null>(null);
-  const [currentProblem, setCurrentProblem] = useState<VisualProblem | null>(null);
-  const [attemptCount, setAttemptCount] = useState(0);
+  const currentProblem = useProblemStore(state => state.currentProblem);
+  const visit = useProblemStore(state => state.visit);
+  const shownVisitRef = useRef(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    if (lessonId) {
-      const problem = getStartingProblem(lessonId);
-      if (problem) {
-        setCurrentProblem(problem);
-        setAttemptCount(0);
-        createProblemImage(problem);
-        if (onProblemChange) {
-          onProblemChange(problem);
-        }
-      }
+    if (lessonId) useProblemStore.getState().startLesson(lessonId);
+  }, [lessonId]);
+
+  // Every new problem - from the lesson starting, "I'm done" or Pi's
+  // complete_problem - gets drawn and sent on to the live session
+  useEffect(() => {
+    // Read the latest, as startLesson may have run just before this on mount
+    const { currentProblem: problem, transition, visit: latest } = useProblemStore.getState();
+    if (!problem || latest === shownVisitRef.current) return;
+    shownVisitRef.current = latest;
+    createProblemImage(problem);
+    if (onProblemChange) {
+      onProblemChange(problem, transition ?? undefined);
     }
-  }, [lessonId, onProblemChange]);
+  }, [visit, onProblemChange]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -92,18 +100,9 @@ const ProblemDisplay: React.FC<ProblemDisplayProps> = ({ onImageUpload, lessonId
     onImageUpload(imageData);
   };
 
-  const loadNextProblem = (wasSuccessful: boolean = true) => {
-    if (currentProblem) {
-      const nextProblem = getNextProblem(currentProblem.id, wasSuccessful, attemptCount);
-      if (nextProblem) {
-        setCurrentProblem(nextProblem);
-        setAttemptCount(wasSuccessful ? 0 : attemptCount + 1);
-        createProblemImage(nextProblem);
-        if (onProblemChange) {
-          onProblemChange(nextProblem);
-        }
-      }
-    }
+  const handleDone = () => {
+    const { enteredAt, advance } = useProblemStore.getState();
+    advance(reasoningShowsSuccess(sessionStore.reasoningSteps, enteredAt), sessionStore.misconceptions);
   };
 
   return (
@@ -150,10 +149,10 @@ const ProblemDisplay: React.FC<ProblemDisplayProps> = ({ onImageUpload, lessonId
             {currentProblem && (
               <button 
                 className="next-problem-btn"
-                onClick={() => loadNextProblem(true)}
-                title="Next problem"
+                onClick={handleDone}
+                title="I'm done - next problem"
               >
-                ➡️
+                ✋ I'm done
               </button>
             )}
           </div>
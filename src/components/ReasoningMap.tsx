@@ -0,0 +1,357 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import rough from 'roughjs';
+import { ReasoningBubble, drawReasoningBubble } from './ui/ReasoningBubble';
+import { designSystem } from '../config/designSystem';
+import { Misconception, ReasoningStep } from '../lib/toolImplementations';
+import { misconceptionLabel } from '../data/misconceptions';
+import {
+  buildReasoningMap,
+  edgeEndpoints,
+  MISCONCEPTION_NODE_HEIGHT,
+  MISCONCEPTION_NODE_WIDTH,
+  ReasoningMap as ReasoningMapLayout,
+  ReasoningMapEdgeKind
+} from '../lib/reasoningMap';
+import './ReasoningMap.scss';
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 2;
+const ZOOM_STEP = 1.2;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const edgeStyles: Record<ReasoningMapEdgeKind, { stroke: string; strokeLineDash?: number[] }> = {
+  continue: { stroke: designSystem.colors.ink },
+  branch: { stroke: designSystem.colors.primary, strokeLineDash: [8, 6] },
+  revealed: { stroke: designSystem.colors.warning, strokeLineDash: [3, 5] }
+};
+
+const drawEdges = (svg: SVGSVGElement, map: ReasoningMapLayout) => {
+  const rc = rough.svg(svg);
+  map.edges.forEach(edge => {
+    const points = edgeEndpoints(map, edge);
+    if (!points) return;
+    svg.appendChild(rc.line(points.x1, points.y1, points.x2, points.y2, {
+      ...edgeStyles[edge.kind],
+      strokeWidth: 2,
+      roughness: designSystem.roughness.subtle
+    }));
+  });
+};
+
+// Greedy word wrap for SVG text, which has no wrapping of its own
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && `${line} ${word}`.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  return [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1].slice(0, maxChars - 1)}…`];
+};
+
+const appendText = (
+  svg: SVGSVGElement,
+  lines: string[],
+  x: number,
+  y: number,
+  attributes: Record<string, string>
+) => {
+  const text = document.createElementNS(SVG_NS, 'text');
+  Object.entries(attributes).forEach(([name, value]) => text.setAttribute(name, value));
+  lines.forEach((line, i) => {
+    const tspan = document.createElementNS(SVG_NS, 'tspan');
+    tspan.setAttribute('x', String(x));
+    tspan.setAttribute('y', String(y + i * 18));
+    tspan.textContent = line;
+    text.appendChild(tspan);
+  });
+  svg.appendChild(text);
+};
+
+// A standalone SVG of the whole map, for download
+const renderMapSvg = (map: ReasoningMapLayout): SVGSVGElement => {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(map.width));
+  svg.setAttribute('height', String(map.height));
+  svg.setAttribute('viewBox', `0 0 ${map.width} ${map.height}`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', designSystem.colors.paper);
+  svg.appendChild(background);
+
+  drawEdges(svg, map);
+
+  const rc = rough.svg(svg);
+  map.nodes.forEach(node => {
+    if (node.kind === 'step') {
+      drawReasoningBubble(svg, node.step.classification, node.x, node.y)
+        .forEach(shape => svg.appendChild(shape));
+      appendText(svg, wrapText(`"${node.step.transcript}"`, 26, 3), node.x + 30, node.y + 38, {
+        'font-family': designSystem.fonts.handwritten,
+        'font-size': '14',
+        fill: designSystem.colors.ink
+      });
+      return;
+    }
+    svg.appendChild(rc.rectangle(node.x, node.y, MISCONCEPTION_NODE_WIDTH, MISCONCEPTION_NODE_HEIGHT, {
+      fill: designSystem.colors.fills.partial,
+      fillStyle: 'solid',
+      stroke: node.misconception.severity === 'major' ? designSystem.colors.error : designSystem.colors.warning,
+      strokeWidth: 2,
+      roughness: designSystem.roughness.normal
+    }));
+    appendText(svg, [`⚠️ ${misconceptionLabel(node.misconception.type)}`], node.x + 12, node.y + 26, {
+      'font-family': designSystem.fonts.body,
+      'font-size': '13',
+      'font-weight': '600',
+      fill: designSystem.colors.ink
+    });
+    appendText(svg, wrapText(node.misconception.evidence, 28, 1), node.x + 12, node.y + 46, {
+      'font-family': designSystem.fonts.body,
+      'font-size': '11',
+      fill: designSystem.colors.ink
+    });
+  });
+
+  return svg;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportSvg = (map: ReasoningMapLayout) => {
+  const xml = new XMLSerializer().serializeToString(renderMapSvg(map));
+  downloadBlob(new Blob([xml], { type: 'image/svg+xml' }), 'reasoning-map.svg');
+};
+
+// Rasterises the SVG export at 2x so it stays crisp when printed
+const exportPng = (map: ReasoningMapLayout): Promise<void> => {
+  const xml = new XMLSerializer().serializeToString(renderMapSvg(map));
+  const url = URL.createObjectURL(new Blob([xml], { type: 'image/svg+xml' }));
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = map.width * 2;
+      canvas.height = map.height * 2;
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!context) {
+        reject(new Error('No 2d context available for PNG export'));
+        return;
+      }
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob(blob => {
+        if (blob) {
+          downloadBlob(blob, 'reasoning-map.png');
+          resolve();
+        } else {
+          reject(new Error('Could not encode the PNG'));
+        }
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the reasoning map'));
+    };
+    image.src = url;
+  });
+};
+
+interface ReasoningMapProps {
+  steps: ReasoningStep[];
+  misconceptions: Misconception[];
+}
+
+// Reasoning steps as a graph of thought bubbles: one column per strategy,
+// dashed links where the student switched, misconceptions off to the side
+const ReasoningMap: React.FC<ReasoningMapProps> = ({ steps, misconceptions }) => {
+  const map = useMemo(() => buildReasoningMap(steps, misconceptions), [steps, misconceptions]);
+  // Pan offset and zoom together, so zooming around a point is one update
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const edgesRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const justPannedRef = useRef(false);
+  const isEmpty = steps.length === 0 && misconceptions.length === 0;
+
+  useEffect(() => {
+    const svg = edgesRef.current;
+    if (!svg) return;
+    svg.innerHTML = '';
+    drawEdges(svg, map);
+  }, [map]);
+
+  const fit = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    setView({
+      x: 0,
+      y: 0,
+      scale: clampScale(Math.min(1, viewport.clientWidth / map.width, viewport.clientHeight / map.height))
+    });
+  }, [map.width, map.height]);
+
+  // Zoom around a point in the viewport, so what's under it stays put
+  const zoomAt = useCallback((factor: number, pointX: number, pointY: number) => {
+    setView(prev => {
+      const scale = clampScale(prev.scale * factor);
+      return {
+        x: pointX - ((pointX - prev.x) * scale) / prev.scale,
+        y: pointY - ((pointY - prev.y) * scale) / prev.scale,
+        scale
+      };
+    });
+  }, []);
+
+  const zoomCentre = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (viewport) zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  // React's wheel listener is passive, and we need to stop the page scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAt, isEmpty]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: true };
+    setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    justPannedRef.current = !!dragRef.current?.moved;
+    dragRef.current = null;
+  };
+
+  const handleExport = (format: 'svg' | 'png') => {
+    if (format === 'svg') {
+      exportSvg(map);
+      return;
+    }
+    exportPng(map).catch(error => console.error('Failed to export reasoning map:', error));
+  };
+
+  const selectedStep = steps.find(step => step.id === selectedId);
+
+  if (isEmpty) {
+    return (
+      <div className="reasoning-map reasoning-map--empty">
+        <p>The reasoning map fills in as the student explains their thinking...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="reasoning-map">
+      <div className="reasoning-map__toolbar">
+        <button onClick={() => zoomCentre(1 / ZOOM_STEP)} title="Zoom out">−</button>
+        <span className="reasoning-map__zoom">{Math.round(view.scale * 100)}%</span>
+        <button onClick={() => zoomCentre(ZOOM_STEP)} title="Zoom in">+</button>
+        <button onClick={fit}>Fit</button>
+        <span className="reasoning-map__spacer" />
+        <button onClick={() => handleExport('svg')}>Export SVG</button>
+        <button onClick={() => handleExport('png')}>Export PNG</button>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className="reasoning-map__viewport"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          className="reasoning-map__stage"
+          style={{
+            width: map.width,
+            height: map.height,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`
+          }}
+        >
+          <svg ref={edgesRef} className="reasoning-map__edges" width={map.width} height={map.height} />
+
+          {map.nodes.map(node => node.kind === 'step' ? (
+            <ReasoningBubble
+              key={node.id}
+              step={node.step}
+              position={{ x: node.x, y: node.y }}
+              isActive={node.id === selectedId}
+              onClick={() => {
+                // The end of a pan is not a click
+                if (justPannedRef.current) return;
+                setSelectedId(prev => (prev === node.id ? null : node.id));
+              }}
+            />
+          ) : (
+            <div
+              key={node.id}
+              className={`reasoning-map__misconception reasoning-map__misconception--${node.misconception.severity}`}
+              style={{ left: node.x, top: node.y, width: MISCONCEPTION_NODE_WIDTH, height: MISCONCEPTION_NODE_HEIGHT }}
+              title={node.misconception.evidence}
+            >
+              <span className="reasoning-map__misconception-type">
+                ⚠️ {misconceptionLabel(node.misconception.type)}
+              </span>
+              <span className="reasoning-map__misconception-evidence">{node.misconception.evidence}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {selectedStep && (
+        <div className="reasoning-map__details">
+          <p>"{selectedStep.transcript}"</p>
+          <span>
+            {selectedStep.classification} · {Math.round(selectedStep.confidence * 100)}% confident
+            {selectedStep.concepts.length > 0 && ` · ${selectedStep.concepts.join(', ')}`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReasoningMap;
@@ -1,42 +1,57 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import './ReasoningTrace.scss';
-import { sessionRecorder } from '../lib/sessionRecorder';
-
-interface ReasoningStep {
-  id: string;
-  transcript: string;
-  classification: 'correct' | 'partial' | 'incorrect' | 'exploring';
-  concepts: string[];
-  confidence: number;
-  timestamp: Date;
-}
-
-interface Misconception {
-  type: string;
-  evidence: string;
-  severity: 'minor' | 'major';
-  timestamp: Date;
-}
+import { sessionRecorder, Session, SessionHint } from '../lib/sessionRecorder';
+import { useSessionEvent } from '../hooks/useSessionEvent';
+import { HINT_LEVELS, HintLevel, Misconception, ReasoningStep } from '../lib/toolImplementations';
+import ReasoningMap from './ReasoningMap';
+import { misconceptionLabel } from '../data/misconceptions';
+
+const hintLevelLabels: Record<HintLevel, string> = {
+  encouragement: 'Encouragement',
+  question: 'Question',
+  visual_hint: 'Visual hint',
+  worked_example: 'Worked example'
+};
+
+// Per problem: how many hints, and how far up the ladder Pi had to go
+const summarizeHints = (hints: SessionHint[]) => {
+  const byProblem = new Map<string, { count: number; highestLevel: HintLevel }>();
+  hints.forEach(hint => {
+    const entry = byProblem.get(hint.problemId);
+    if (!entry) {
+      byProblem.set(hint.problemId, { count: 1, highestLevel: hint.level });
+      return;
+    }
+    entry.count += 1;
+    if (HINT_LEVELS.indexOf(hint.level) > HINT_LEVELS.indexOf(entry.highestLevel)) {
+      entry.highestLevel = hint.level;
+    }
+  });
+  return Array.from(byProblem.entries()).map(([problemId, entry]) => ({ problemId, ...entry }));
+};
 
 const ReasoningTrace: React.FC = () => {
   const [reasoningSteps, setReasoningSteps] = useState<ReasoningStep[]>([]);
   const [misconceptions, setMisconceptions] = useState<Misconception[]>([]);
+  const [hints, setHints] = useState<SessionHint[]>([]);
   const [showDetails, setShowDetails] = useState<string | null>(null);
+  const [view, setView] = useState<'list' | 'map'>('list');
+
+  // The recorder mutates its session in place, so copy for React
+  const showSession = (session: Session) => {
+    setReasoningSteps([...session.reasoningSteps]);
+    setMisconceptions([...session.misconceptions]);
+    setHints([...session.hints]);
+  };
 
   useEffect(() => {
-    // Poll for updates from session recorder
-    const interval = setInterval(() => {
-      const currentSession = sessionRecorder.getCurrentSession();
-      if (currentSession) {
-        setReasoningSteps(currentSession.reasoningSteps);
-        setMisconceptions(currentSession.misconceptions);
-      }
-    }, 500);
-
-    return () => clearInterval(interval);
+    const currentSession = sessionRecorder.getCurrentSession();
+    if (currentSession) showSession(currentSession);
   }, []);
 
+  useSessionEvent('session-updated', ({ session }) => showSession(session));
+
   const getStepIcon = (classification: string) => {
     switch (classification) {
       case 'correct': return '✓';
@@ -57,8 +72,8 @@ const ReasoningTrace: React.FC = () => {
     }
   };
 
-  const formatTime = (date: Date) => {
-    return new Date(date).toLocaleTimeString('en-US', { 
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', { 
       hour: 'numeric', 
       minute: '2-digit',
       second: '2-digit'
@@ -67,7 +82,13 @@ const ReasoningTrace: React.FC = () => {
 
   return (
     <div className="reasoning-trace">
-      <h3 className="trace-title">Student Reasoning Journey</h3>
+      <div className="trace-header">
+        <h3 className="trace-title">Student Reasoning Journey</h3>
+        <div className="trace-view-toggle">
+          <button className={view === 'list' ? 'active' : ''} onClick={() => setView('list')}>List</button>
+          <button className={view === 'map' ? 'active' : ''} onClick={() => setView('map')}>Map</button>
+        </div>
+      </div>
       
       <div className="trace-legend">
         <span className="legend-item correct">
@@ -84,88 +105,107 @@ const ReasoningTrace: React.FC = () => {
         </span>
       </div>
 
-      <div className="trace-timeline">
-        <AnimatePresence>
-          {reasoningSteps.map((step, index) => {
-            const relatedMisconception = misconceptions.find(m => 
-              Math.abs(new Date(m.timestamp).getTime() - new Date(step.timestamp).getTime()) < 5000
-            );
-
-            return (
-              <motion.div
-                key={step.id}
-                className={`trace-step ${getStepColor(step.classification)}`}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                exit={{ opacity: 0, x: 20 }}
-                transition={{ duration: 0.3, delay: index * 0.1 }}
-                onClick={() => setShowDetails(showDetails === step.id ? null : step.id)}
-              >
-                <div className="step-header">
-                  <span className="step-icon">{getStepIcon(step.classification)}</span>
-                  <span className="step-time">{formatTime(step.timestamp)}</span>
-                  <span className="step-confidence">
-                    {Math.round(step.confidence * 100)}%
-                  </span>
-                </div>
-                
-                <div className="step-content">
-                  <p className="step-transcript">"{step.transcript}"</p>
+      {view === 'map' ? (
+        <ReasoningMap steps={reasoningSteps} misconceptions={misconceptions} />
+      ) : (
+        <div className="trace-timeline">
+          <AnimatePresence>
+            {reasoningSteps.map((step, index) => {
+              const relatedMisconception = misconceptions.find(m => 
+                Math.abs(new Date(m.timestamp).getTime() - new Date(step.timestamp).getTime()) < 5000
+              );
+
+              return (
+                <motion.div
+                  key={step.id}
+                  className={`trace-step ${getStepColor(step.classification)}`}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: 20 }}
+                  transition={{ duration: 0.3, delay: index * 0.1 }}
+                  onClick={() => setShowDetails(showDetails === step.id ? null : step.id)}
+                >
+                  <div className="step-header">
+                    <span className="step-icon">{getStepIcon(step.classification)}</span>
+                    <span className="step-time">{formatTime(step.timestamp)}</span>
+                    <span className="step-confidence">
+                      {Math.round(step.confidence * 100)}%
+                    </span>
+                  </div>
                   
-                  {step.concepts.length > 0 && (
-                    <div className="step-concepts">
-                      {step.concepts.map((concept, i) => (
-                        <span key={i} className="concept-tag">{concept}</span>
-                      ))}
-                    </div>
-                  )}
+                  <div className="step-content">
+                    <p className="step-transcript">"{step.transcript}"</p>
+                    
+                    {step.concepts.length > 0 && (
+                      <div className="step-concepts">
+                        {step.concepts.map((concept, i) => (
+                          <span key={i} className="concept-tag">{concept}</span>
+                        ))}
+                      </div>
+                    )}
 
-                  {relatedMisconception && (
-                    <div className={`misconception-alert ${relatedMisconception.severity}`}>
-                      <span className="alert-icon">⚠️</span>
-                      <span className="alert-text">
-                        {relatedMisconception.type.replace(/_/g, ' ')}
-                      </span>
-                    </div>
-                  )}
-                </div>
-
-                {showDetails === step.id && (
-                  <motion.div 
-                    className="step-details"
-                    initial={{ height: 0, opacity: 0 }}
-                    animate={{ height: 'auto', opacity: 1 }}
-                    exit={{ height: 0, opacity: 0 }}
-                  >
                     {relatedMisconception && (
-                      <div className="detail-section">
-                        <h4>Misconception Details</h4>
-                        <p>{relatedMisconception.evidence}</p>
+                      <div className={`misconception-alert ${relatedMisconception.severity}`}>
+                        <span className="alert-icon">⚠️</span>
+                        <span className="alert-text">
+                          {misconceptionLabel(relatedMisconception.type)}
+                        </span>
                       </div>
                     )}
-                    
-                    <div className="detail-section">
-                      <h4>Learning Progress</h4>
-                      <div className="progress-bar">
-                        <div 
-                          className="progress-fill"
-                          style={{ width: `${step.confidence * 100}%` }}
-                        />
+                  </div>
+
+                  {showDetails === step.id && (
+                    <motion.div 
+                      className="step-details"
+                      initial={{ height: 0, opacity: 0 }}
+                      animate={{ height: 'auto', opacity: 1 }}
+                      exit={{ height: 0, opacity: 0 }}
+                    >
+                      {relatedMisconception && (
+                        <div className="detail-section">
+                          <h4>Misconception Details</h4>
+                          <p>{relatedMisconception.evidence}</p>
+                        </div>
+                      )}
+                      
+                      <div className="detail-section">
+                        <h4>Learning Progress</h4>
+                        <div className="progress-bar">
+                          <div 
+                            className="progress-fill"
+                            style={{ width: `${step.confidence * 100}%` }}
+                          />
+                        </div>
                       </div>
-                    </div>
-                  </motion.div>
-                )}
-              </motion.div>
-            );
-          })}
-        </AnimatePresence>
-
-        {reasoningSteps.length === 0 && (
-          <div className="empty-state">
-            <p>Student's reasoning steps will appear here as they work through the problem...</p>
-          </div>
-        )}
-      </div>
+                    </motion.div>
+                  )}
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+
+          {reasoningSteps.length === 0 && (
+            <div className="empty-state">
+              <p>Student's reasoning steps will appear here as they work through the problem...</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {hints.length > 0 && (
+        <div className="trace-hints">
+          <h4>Support by Problem</h4>
+          {summarizeHints(hints).map(({ problemId, count, highestLevel }) => (
+            <div key={problemId} className="hint-row">
+              <span className="hint-problem">{problemId}</span>
+              <span className="hint-count">{count} {count === 1 ? 'hint' : 'hints'}</span>
+              <span className={`hint-level hint-level--${highestLevel}`}>
+                {hintLevelLabels[highestLevel]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
 
       <div className="trace-summary">
         <div className="summary-stat">
@@ -182,6 +222,10 @@ const ReasoningTrace: React.FC = () => {
           <span className="stat-value">{misconceptions.length}</span>
           <span className="stat-label">Challenges</span>
         </div>
+        <div className="summary-stat">
+          <span className="stat-value">{hints.length}</span>
+          <span className="stat-label">Hints</span>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,167 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { sessionRecorder, Session } from '../lib/sessionRecorder';
+import { isOnRoster, STUDENT_AVATARS, useStudentStore } from '../lib/studentProfiles';
+import { useSessionEvent } from '../hooks/useSessionEvent';
+import './RosterManager.scss';
+
+interface ProfileFormProps {
+  initialName?: string;
+  initialAvatar?: string;
+  submitLabel: string;
+  onSubmit: (name: string, avatar: string) => void;
+  onCancel?: () => void;
+}
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ initialName = '', initialAvatar, submitLabel, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initialName);
+  const [avatar, setAvatar] = useState(initialAvatar || STUDENT_AVATARS[0]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit(name, avatar);
+    if (!initialName) setName('');
+  };
+
+  return (
+    <form className="roster__form" onSubmit={handleSubmit}>
+      <input
+        className="roster__name-input"
+        value={name}
+        placeholder="Student's first name"
+        maxLength={24}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <div className="roster__avatars">
+        {STUDENT_AVATARS.map(option => (
+          <button
+            key={option}
+            type="button"
+            className={`roster__avatar-option ${option === avatar ? 'roster__avatar-option--selected' : ''}`}
+            onClick={() => setAvatar(option)}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <div className="roster__form-actions">
+        <button type="submit" disabled={!name.trim()}>{submitLabel}</button>
+        {onCancel && <button type="button" onClick={onCancel}>Cancel</button>}
+      </div>
+    </form>
+  );
+};
+
+// The class roster, from the teacher view: add, rename and remove students,
+// and hand sessions recorded without a profile to the right student
+const RosterManager: React.FC = () => {
+  const { students, currentStudentId, addStudent, updateStudent, removeStudent } = useStudentStore();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [assignTo, setAssignTo] = useState('');
+  // Whose lesson is being recorded right now - they can't be removed mid-session
+  const [recordingStudentId, setRecordingStudentId] = useState(() => sessionRecorder.getCurrentSession()?.studentId);
+
+  useSessionEvent('session-updated', ({ session }) => setRecordingStudentId(session.studentId));
+  useSessionEvent('session-ended', () => setRecordingStudentId(undefined));
+
+  const refreshSessions = useCallback(async () => {
+    const all = await sessionRecorder.getAllSessions();
+    setSessions(all.filter(s => s.status !== 'active'));
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const unlinked = sessions.filter(s => !isOnRoster(students, s.studentId));
+  const sessionCount = (studentId: string) => sessions.filter(s => s.studentId === studentId).length;
+
+  const handleRemove = async (studentId: string, name: string) => {
+    if (studentId === recordingStudentId) return;
+    const count = sessionCount(studentId);
+    const sessionNote = count > 0 ? `\n\nTheir ${count} recorded session${count === 1 ? '' : 's'} will be deleted too.` : '';
+    if (!window.confirm(`Remove ${name} from the class?${sessionNote}`)) return;
+    await sessionRecorder.deleteStudentSessions(studentId);
+    removeStudent(studentId);
+    await refreshSessions();
+  };
+
+  const handleAssign = async () => {
+    if (!assignTo) return;
+    await sessionRecorder.assignSessions(unlinked.map(s => s.id), assignTo);
+    setAssignTo('');
+    await refreshSessions();
+  };
+
+  return (
+    <div className="roster">
+      <h3>Class Roster</h3>
+
+      {students.length === 0 ? (
+        <p className="roster__empty">
+          No students yet. Once you add some, each student picks their avatar before a lesson
+          and gets their own progress, replays and settings.
+        </p>
+      ) : (
+        <ul className="roster__list">
+          {students.map(student => (
+            <li key={student.id} className="roster__student">
+              {editingId === student.id ? (
+                <ProfileForm
+                  initialName={student.name}
+                  initialAvatar={student.avatar}
+                  submitLabel="Save"
+                  onSubmit={(name, avatar) => {
+                    updateStudent(student.id, { name, avatar });
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <>
+                  <span className="roster__avatar">{student.avatar}</span>
+                  <span className="roster__name">
+                    {student.name}
+                    {student.id === currentStudentId && <span className="roster__current">learning now</span>}
+                  </span>
+                  <span className="roster__count">
+                    {sessionCount(student.id)} session{sessionCount(student.id) === 1 ? '' : 's'}
+                  </span>
+                  <button onClick={() => setEditingId(student.id)}>Edit</button>
+                  <button
+                    onClick={() => handleRemove(student.id, student.name)}
+                    disabled={student.id === recordingStudentId}
+                    title={student.id === recordingStudentId ? 'End their lesson first' : undefined}
+                  >
+                    Remove
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h4>Add a Student</h4>
+      <ProfileForm submitLabel="Add student" onSubmit={(name, avatar) => addStudent(name, avatar)} />
+
+      {unlinked.length > 0 && students.length > 0 && (
+        <div className="roster__unlinked">
+          <p>
+            {unlinked.length} recorded session{unlinked.length === 1 ? " isn't" : "s aren't"} linked to a student.
+          </p>
+          <select value={assignTo} onChange={(e) => setAssignTo(e.target.value)}>
+            <option value="">Choose a student...</option>
+            {students.map(student => (
+              <option key={student.id} value={student.id}>{student.avatar} {student.name}</option>
+            ))}
+          </select>
+          <button onClick={handleAssign} disabled={!assignTo}>Assign to them</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterManager;
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { sessionRecorder, Session } from '../lib/sessionRecorder';
+import { HINT_LEVELS, HintLevel, sessionStore } from '../lib/toolImplementations';
+import { computeSessionAnalytics, STEP_CLASSIFICATIONS } from '../lib/sessionAnalytics';
+import { formatOffset } from '../lib/sessionReplay';
+import { useSessionEvent } from '../hooks/useSessionEvent';
+import { misconceptionLabel } from '../data/misconceptions';
+import './SessionAnalytics.scss';
+
+// Time on task keeps counting between events
+const TICK_MS = 1000;
+
+const hintLevelLabels: Record<HintLevel, string> = {
+  encouragement: 'Encouragement',
+  question: 'Question',
+  visual_hint: 'Visual hint',
+  worked_example: 'Worked example'
+};
+
+// Live numbers for the session in progress
+const SessionAnalytics: React.FC = () => {
+  const [session, setSession] = useState<Session | null>(() => sessionRecorder.getCurrentSession());
+  const [now, setNow] = useState(Date.now());
+
+  useSessionEvent('session-updated', ({ session: updated }) => {
+    setSession(updated);
+    setNow(Date.now());
+  });
+
+  useSessionEvent('session-ended', () => setSession(null));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!session) {
+    return (
+      <div className="session-analytics">
+        <p className="session-analytics__empty">
+          No session in progress. Finished sessions can be played back in the Replay tab.
+        </p>
+      </div>
+    );
+  }
+
+  const analytics = computeSessionAnalytics(
+    session,
+    sessionStore.celebrations.map(celebration => celebration.timestamp),
+    now
+  );
+  // Talk is estimated with a words-per-second floor, so it can add up to more
+  // than the session - scale the bars down rather than let them overflow
+  const talkScale = Math.max(analytics.timeOnTaskMs, analytics.studentTalkMs + analytics.piTalkMs, 1);
+  const maxBucket = Math.max(
+    1,
+    ...analytics.classificationTimeline.map(bucket =>
+      STEP_CLASSIFICATIONS.reduce((sum, c) => sum + bucket.counts[c], 0))
+  );
+  const maxHints = Math.max(1, ...HINT_LEVELS.map(level => analytics.hintsByLevel[level]));
+
+  return (
+    <div className="session-analytics">
+      <div className="stat-cards">
+        <div className="stat-card">
+          <span className="stat-value">{formatOffset(analytics.timeOnTaskMs)}</span>
+          <span className="stat-label">Time on Task</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-value">{analytics.attempts}</span>
+          <span className="stat-label">Attempts</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-value">{session.hints.length}</span>
+          <span className="stat-label">Hints Given</span>
+        </div>
+      </div>
+
+      <section className="session-analytics__section">
+        <h4>Talk Time</h4>
+        <div className="session-analytics__talk-bar">
+          <div
+            className="session-analytics__talk session-analytics__talk--student"
+            style={{ width: `${(analytics.studentTalkMs / talkScale) * 100}%` }}
+          />
+          <div
+            className="session-analytics__talk session-analytics__talk--pi"
+            style={{ width: `${(analytics.piTalkMs / talkScale) * 100}%` }}
+          />
+        </div>
+        <div className="session-analytics__legend">
+          <span className="session-analytics__key session-analytics__key--student">
+            Student {formatOffset(analytics.studentTalkMs)}
+          </span>
+          <span className="session-analytics__key session-analytics__key--pi">
+            Pi {formatOffset(analytics.piTalkMs)}
+          </span>
+          <span className="session-analytics__key session-analytics__key--silence">
+            Silence {formatOffset(analytics.silenceMs)}
+          </span>
+        </div>
+      </section>
+
+      <section className="session-analytics__section">
+        <h4>Reasoning Over Time</h4>
+        <div className="session-analytics__timeline">
+          {analytics.classificationTimeline.map(bucket => (
+            <div key={bucket.startMs} className="session-analytics__column" title={formatOffset(bucket.startMs)}>
+              {STEP_CLASSIFICATIONS.map(classification => bucket.counts[classification] > 0 && (
+                <div
+                  key={classification}
+                  className={`session-analytics__segment session-analytics__segment--${classification}`}
+                  style={{ height: `${(bucket.counts[classification] / maxBucket) * 100}%` }}
+                  title={`${bucket.counts[classification]} ${classification}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="session-analytics__legend">
+          {STEP_CLASSIFICATIONS.map(classification => (
+            <span key={classification} className={`session-analytics__key session-analytics__key--${classification}`}>
+              {classification}
+            </span>
+          ))}
+        </div>
+      </section>
+
+      {analytics.attemptsByProblem.length > 0 && (
+        <section className="session-analytics__section">
+          <h4>Attempts by Problem</h4>
+          {analytics.attemptsByProblem.map(problem => (
+            <div key={problem.problemId} className="session-analytics__row">
+              <span className="session-analytics__row-label">{problem.problemId}</span>
+              <span>{problem.attempts} attempts, {problem.incorrect} incorrect</span>
+              <span className="session-analytics__row-value">{formatOffset(problem.timeMs)}</span>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <section className="session-analytics__section">
+        <h4>Hints by Level</h4>
+        {HINT_LEVELS.map(level => (
+          <div key={level} className="session-analytics__row">
+            <span className="session-analytics__row-label">{hintLevelLabels[level]}</span>
+            <div className="session-analytics__bar">
+              <div
+                className={`session-analytics__bar-fill session-analytics__bar-fill--${level}`}
+                style={{ width: `${(analytics.hintsByLevel[level] / maxHints) * 100}%` }}
+              />
+            </div>
+            <span className="session-analytics__row-value">{analytics.hintsByLevel[level]}</span>
+          </div>
+        ))}
+      </section>
+
+      <section className="session-analytics__section">
+        <h4>Misconceptions</h4>
+        {analytics.misconceptionCounts.length === 0 ? (
+          <p className="session-analytics__empty">None flagged yet.</p>
+        ) : analytics.misconceptionCounts.map(({ type, count }) => (
+          <div key={type} className="session-analytics__row">
+            <span className="session-analytics__row-label">{misconceptionLabel(type)}</span>
+            <span className="session-analytics__row-value">{count}</span>
+          </div>
+        ))}
+      </section>
+
+      {analytics.remediations.length > 0 && (
+        <section className="session-analytics__section">
+          <h4>Remediation Routing</h4>
+          {analytics.remediations.map(route => (
+            <div key={route.timestamp} className="session-analytics__row">
+              <span className="session-analytics__row-label">{misconceptionLabel(route.misconceptionId)}</span>
+              <span>{route.fromProblemId} → {route.toProblemId}</span>
+              <span className="session-analytics__row-value">{formatOffset(route.timestamp - session.startTime)}</span>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <div className="insights">
+        <h4>Key Insights</h4>
+        {analytics.insights.length === 0 ? (
+          <p className="session-analytics__empty">Insights appear once Pi has heard some reasoning.</p>
+        ) : (
+          <ul>
+            {analytics.insights.map(insight => (
+              <li key={insight}>{insight}</li>
+            ))}
+          </ul>
+        )}
+        {analytics.celebrations > 0 && (
+          <p className="session-analytics__celebrations">
+            🎉 {analytics.celebrations} {analytics.celebrations === 1 ? 'celebration' : 'celebrations'} this session
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionAnalytics;
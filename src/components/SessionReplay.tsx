@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { sessionRecorder, Session } from '../lib/sessionRecorder';
+import { loadSnapshot } from '../lib/sessionDatabase';
+import { buildReplayTimeline, formatOffset, ReplayEntry, snapshotAt } from '../lib/sessionReplay';
+import { downloadSessionBundle, exportSessions, importSessionBundle } from '../lib/sessionBundle';
+import { getLesson } from '../data/curriculum';
+import './SessionReplay.scss';
+
+const PLAYBACK_TICK_MS = 100;
+const PLAYBACK_SPEEDS = [1, 2, 4, 8];
+
+const kindIcons: Record<ReplayEntry['kind'], string> = {
+  reasoning: '💭',
+  misconception: '💡',
+  hint: '🪜',
+  canvas: '✏️',
+  manipulative: '🧩',
+  problem: '➡️',
+  speech: '🗣️',
+  cancelled: '↩'
+};
+
+const describeSession = (session: Session) => {
+  const start = new Date(session.startTime);
+  const date = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const time = start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  const recovered = session.status === 'recovered' ? ' (interrupted)' : '';
+  const lesson = session.lessonId ? getLesson(session.lessonId)?.title ?? session.lessonId : session.problemId;
+  return `${date}, ${time} - ${lesson}${recovered}`;
+};
+
+// Teacher view for playing back a recorded session: the canvas as Pi saw
+// it, with the reasoning steps and misconceptions as they happened
+// `studentId` null is the sessions with no student on the roster
+const SessionReplay: React.FC<{ studentId: string | null }> = ({ studentId }) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [snapshotUrl, setSnapshotUrl] = useState<string | null>(null);
+  const snapshotUrlsRef = useRef<Map<string, string>>(new Map());
+
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshSessions = useCallback(async () => {
+    const all = await sessionRecorder.getAllSessions(studentId);
+    const finished = all.filter(s => s.status !== 'active').reverse();
+    setSessions(finished);
+    setSelectedId(prev => (prev && finished.some(s => s.id === prev) ? prev : finished[0]?.id ?? null));
+  }, [studentId]);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const handleExport = async (ids?: string[]) => {
+    try {
+      setTransferMessage('Preparing export...');
+      downloadSessionBundle(await exportSessions(ids));
+      setTransferMessage(null);
+    } catch (error) {
+      setTransferMessage(`Export failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { imported, skipped } = await importSessionBundle(file);
+      await refreshSessions();
+      setTransferMessage(
+        `Imported ${imported.length} session${imported.length === 1 ? '' : 's'}` +
+        (skipped.length > 0 ? `, skipped ${skipped.length} already here` : '')
+      );
+    } catch (error) {
+      setTransferMessage((error as Error).message);
+    }
+  };
+
+  const session = sessions.find(s => s.id === selectedId) || null;
+  const timeline = useMemo(() => (session ? buildReplayTimeline(session) : null), [session]);
+
+  // Start from the beginning whenever another session is picked
+  useEffect(() => {
+    setPosition(0);
+    setPlaying(false);
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (!playing || !timeline) return;
+    const interval = setInterval(() => {
+      setPosition(prev => Math.min(timeline.durationMs, prev + PLAYBACK_TICK_MS * speed));
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [playing, speed, timeline]);
+
+  useEffect(() => {
+    if (playing && timeline && position >= timeline.durationMs) setPlaying(false);
+  }, [playing, position, timeline]);
+
+  // Snapshots live in the session database as blobs; load each one once
+  const snapshotId = timeline ? snapshotAt(timeline, position) : null;
+  useEffect(() => {
+    if (!snapshotId) {
+      setSnapshotUrl(null);
+      return;
+    }
+    const cached = snapshotUrlsRef.current.get(snapshotId);
+    if (cached) {
+      setSnapshotUrl(cached);
+      return;
+    }
+
+    let cancelled = false;
+    loadSnapshot(snapshotId)
+      .then(snapshot => {
+        if (!snapshot || cancelled) return;
+        const url = URL.createObjectURL(snapshot.blob);
+        snapshotUrlsRef.current.set(snapshotId, url);
+        setSnapshotUrl(url);
+      })
+      .catch(error => console.error('Failed to load snapshot:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshotId]);
+
+  useEffect(() => {
+    const urls = snapshotUrlsRef.current;
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  const transfer = (
+    <div className="session-replay__transfer">
+      {sessions.length > 0 && (
+        <>
+          <button onClick={() => selectedId && handleExport([selectedId])}>Export this</button>
+          <button onClick={() => handleExport(sessions.map(s => s.id))}>Export all</button>
+        </>
+      )}
+      <button onClick={() => fileInputRef.current?.click()}>Import...</button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+      {transferMessage && <p className="session-replay__transfer-message">{transferMessage}</p>}
+    </div>
+  );
+
+  if (sessions.length === 0) {
+    return (
+      <div className="session-replay">
+        {transfer}
+        <p className="session-replay__empty">No recorded sessions yet. Finished sessions show up here.</p>
+      </div>
+    );
+  }
+
+  const shownEntries = timeline
+    ? timeline.entries.filter(e => e.offsetMs <= position && e.kind !== 'canvas')
+    : [];
+  const durationMs = timeline?.durationMs || 0;
+
+  return (
+    <div className="session-replay">
+      {transfer}
+
+      <select
+        className="session-replay__picker"
+        value={selectedId ?? ''}
+        onChange={(e) => setSelectedId(e.target.value)}
+      >
+        {sessions.map(s => (
+          <option key={s.id} value={s.id}>{describeSession(s)}</option>
+        ))}
+      </select>
+
+      <div className="session-replay__canvas">
+        {snapshotUrl ? (
+          <img src={snapshotUrl} alt="Student canvas at this point in the session" />
+        ) : (
+          <span className="session-replay__no-canvas">
+            {session?.snapshotsPruned ? 'Canvas images were removed to save space' : 'Nothing drawn yet'}
+          </span>
+        )}
+      </div>
+
+      <div className="session-replay__controls">
+        <button
+          className="session-replay__play"
+          onClick={() => {
+            if (position >= durationMs) setPosition(0);
+            setPlaying(prev => !prev);
+          }}
+          disabled={durationMs === 0}
+        >
+          {playing ? '⏸' : '▶'}
+        </button>
+        <span className="session-replay__time">
+          {formatOffset(position)} / {formatOffset(durationMs)}
+        </span>
+        <select
+          className="session-replay__speed"
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+        >
+          {PLAYBACK_SPEEDS.map(s => (
+            <option key={s} value={s}>{s}x</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="session-replay__scrubber">
+        <input
+          type="range"
+          min={0}
+          max={durationMs}
+          step={100}
+          value={position}
+          onChange={(e) => {
+            setPlaying(false);
+            setPosition(Number(e.target.value));
+          }}
+        />
+        <div className="session-replay__markers">
+          {timeline?.entries.filter(e => e.kind !== 'canvas' && e.kind !== 'speech').map((entry, i) => (
+            <button
+              key={i}
+              className={`session-replay__marker session-replay__marker--${entry.kind}`}
+              style={{ left: `${durationMs > 0 ? (entry.offsetMs / durationMs) * 100 : 0}%` }}
+              title={`${formatOffset(entry.offsetMs)} ${entry.label}`}
+              onClick={() => {
+                setPlaying(false);
+                setPosition(entry.offsetMs);
+              }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <ul className="session-replay__entries">
+        {shownEntries.length === 0 && (
+          <li className="session-replay__empty">Nothing has happened yet at this point.</li>
+        )}
+        {[...shownEntries].reverse().map((entry, i) => (
+          <li
+            key={`${entry.offsetMs}-${i}`}
+            className={`session-replay__entry session-replay__entry--${entry.kind} ${entry.classification ? `session-replay__entry--${entry.classification}` : ''} ${entry.speaker ? `session-replay__entry--${entry.speaker}` : ''} ${entry.cancelled ? 'session-replay__entry--cancelled' : ''}`}
+          >
+            <span className="session-replay__entry-icon">{kindIcons[entry.kind]}</span>
+            <div className="session-replay__entry-body">
+              <span className="session-replay__entry-label">{entry.label}</span>
+              {entry.detail && <span className="session-replay__entry-detail">{entry.detail}</span>}
+            </div>
+            <span className="session-replay__entry-time">{formatOffset(entry.offsetMs)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionReplay;
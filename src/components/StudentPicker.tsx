@@ -0,0 +1,36 @@
+import React from 'react';
+import { useStudentStore } from '../lib/studentProfiles';
+import './StudentPicker.scss';
+
+// "Who's learning?" - shown on a shared device before a lesson is picked.
+// Students find themselves by avatar, so no reading or typing is needed.
+const StudentPicker: React.FC = () => {
+  const students = useStudentStore(state => state.students);
+  const selectStudent = useStudentStore(state => state.selectStudent);
+
+  return (
+    <div className="student-picker">
+      <div className="student-picker__greeting">
+        <img src="/assets/pi-character.png" alt="Pi" className="student-picker__pi" />
+        <h2>Who's learning with me today?</h2>
+      </div>
+
+      <div className="student-picker__grid">
+        {students.map(student => (
+          <button
+            key={student.id}
+            className="student-picker__card"
+            onClick={() => selectStudent(student.id)}
+          >
+            <span className="student-picker__avatar">{student.avatar}</span>
+            <span className="student-picker__name">{student.name}</span>
+          </button>
+        ))}
+      </div>
+
+      <p className="student-picker__hint">Can't find yourself? Ask your teacher to add you! 🙋</p>
+    </div>
+  );
+};
+
+export default StudentPicker;
@@ -1,6 +1,33 @@
 import React, { useEffect, useState } from 'react';
 import './StudentProgress.scss';
-import { sessionRecorder } from '../lib/sessionRecorder';
+import { sessionRecorder, Session } from '../lib/sessionRecorder';
+import { ConceptMastery, estimateMastery, isMastered, isStruggling, normalizeConcept } from '../lib/masteryModel';
+import MasteryChart from './MasteryChart';
+import { getMisconceptionEntry, misconceptionLabel, MisconceptionEntry } from '../data/misconceptions';
+import { curriculum } from '../data/curriculum';
+
+interface ProblemStats {
+  problemId: string;
+  visits: number;
+  solved: number;
+  struggled: number;
+  attempts: number;
+  incorrectAttempts: number;
+  timeSpentMs: number;
+}
+
+// One catalog entry's flags across all sessions. Types no longer in the
+// catalog still get a group, just without an entry.
+interface MisconceptionStats {
+  type: string;
+  entry?: MisconceptionEntry;
+  count: number;
+  major: number;
+  // Times getNextProblem detoured to work on it
+  remediations: number;
+  sessions: number;
+  lastSeen: number;
+}
 
 interface ProgressData {
   totalSessions: number;
@@ -12,107 +39,139 @@ interface ProgressData {
     problemsSolved: number;
     conceptsPracticed: string[];
   }[];
-  masteryByUnit: {
-    unit: string;
+  masteryByLesson: {
+    lessonId: string;
+    title: string;
     mastery: number;
     concepts: string[];
   }[];
+  conceptMastery: ConceptMastery[];
+  problemStats: ProblemStats[];
+  misconceptionStats: MisconceptionStats[];
 }
 
-const StudentProgress: React.FC = () => {
+// Problems solved in a session: visits left via getNextProblem's success
+// branch. Sessions from before visits were recorded only tell us whether
+// Pi heard any reasoning at all.
+const countProblemsSolved = (session: Session): number =>
+  session.problemVisits
+    ? session.problemVisits.filter(visit => visit.exit === 'success').length
+    : (session.reasoningSteps.length > 0 ? 1 : 0);
+
+const formatMinutes = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? '<1 min' : `${minutes} min`;
+};
+
+// `studentId` null is the sessions with no student on the roster
+const StudentProgress: React.FC<{ studentId: string | null }> = ({ studentId }) => {
   const [progressData, setProgressData] = useState<ProgressData | null>(null);
 
   useEffect(() => {
-    // Load all sessions from localStorage
-    const sessions = sessionRecorder.getAllSessions();
-    
-    // Process sessions to extract progress data
-    const data = processSessionsForProgress(sessions);
-    setProgressData(data);
-  }, []);
-
-  const processSessionsForProgress = (sessions: any[]): ProgressData => {
-    const conceptFrequency: { [key: string]: number } = {};
-    const misconceptionFrequency: { [key: string]: number } = {};
+    let cancelled = false;
+
+    // Load the student's sessions from the session database
+    setProgressData(null);
+    sessionRecorder.getAllSessions(studentId).then(sessions => {
+      if (cancelled) return;
+      // Process sessions to extract progress data
+      const data = processSessionsForProgress(sessions);
+      setProgressData(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId]);
+
+  const processSessionsForProgress = (sessions: Session[]): ProgressData => {
     const recentActivity: any[] = [];
+    const problemStats: { [problemId: string]: ProblemStats } = {};
+    const misconceptionStats: { [type: string]: MisconceptionStats } = {};
     
     sessions.forEach(session => {
-      // Count concepts
-      session.reasoningSteps.forEach((step: any) => {
-        if (step.concepts) {
-          step.concepts.forEach((concept: string) => {
-            conceptFrequency[concept] = (conceptFrequency[concept] || 0) + 1;
-          });
-        }
+      // Flags grouped by catalog entry
+      const typesThisSession = new Set<string>();
+      session.misconceptions.forEach(misconception => {
+        if (!misconception.type) return;
+        const stats = misconceptionStats[misconception.type] ||= {
+          type: misconception.type,
+          entry: getMisconceptionEntry(misconception.type),
+          count: 0,
+          major: 0,
+          remediations: 0,
+          sessions: 0,
+          lastSeen: 0
+        };
+        stats.count += 1;
+        if (misconception.severity === 'major') stats.major += 1;
+        if (!typesThisSession.has(misconception.type)) stats.sessions += 1;
+        typesThisSession.add(misconception.type);
+        stats.lastSeen = Math.max(stats.lastSeen, misconception.timestamp || session.startTime);
       });
-      
-      // Count misconceptions
-      session.misconceptions.forEach((misconception: any) => {
-        if (misconception.type) {
-          misconceptionFrequency[misconception.type] = 
-            (misconceptionFrequency[misconception.type] || 0) + 1;
-        }
+
+      // Per-problem time and attempts
+      (session.problemVisits || []).forEach(visit => {
+        const remediated = visit.remediationFor && misconceptionStats[visit.remediationFor];
+        if (remediated) remediated.remediations += 1;
+        const stats = problemStats[visit.problemId] ||= {
+          problemId: visit.problemId,
+          visits: 0,
+          solved: 0,
+          struggled: 0,
+          attempts: 0,
+          incorrectAttempts: 0,
+          timeSpentMs: 0
+        };
+        stats.visits += 1;
+        if (visit.exit === 'success') stats.solved += 1;
+        if (visit.exit === 'struggle') stats.struggled += 1;
+        stats.attempts += visit.attempts;
+        stats.incorrectAttempts += visit.incorrectAttempts;
+        const exitedAt = visit.exitedAt ?? session.endTime ?? session.updatedAt ?? visit.enteredAt;
+        stats.timeSpentMs += Math.max(0, exitedAt - visit.enteredAt);
       });
-      
+
       // Add to recent activity
       if (recentActivity.length < 7) {
         recentActivity.push({
           date: new Date(session.endTime || session.startTime).toLocaleDateString(),
-          problemsSolved: session.reasoningSteps.length > 0 ? 1 : 0,
+          problemsSolved: countProblemsSolved(session),
           conceptsPracticed: Array.from(new Set(
-            session.reasoningSteps.flatMap((s: any) => s.concepts || [])
+            session.reasoningSteps.flatMap(s => s.concepts || [])
           ))
         });
       }
     });
     
-    // Determine mastered vs struggling concepts
-    const conceptsMastered = Object.entries(conceptFrequency)
-      .filter(([_, count]) => count >= 3)
-      .map(([concept]) => concept);
-      
-    const strugglingConcepts = Object.keys(misconceptionFrequency)
-      .filter(concept => misconceptionFrequency[concept] >= 2);
-    
-    // Calculate mastery by unit
-    const masteryByUnit = [
-      {
-        unit: 'Fractions Basics',
-        mastery: calculateMastery(['equal parts', 'numerator', 'denominator'], conceptFrequency),
-        concepts: ['equal parts', 'numerator', 'denominator']
-      },
-      {
-        unit: 'Equivalent Fractions',
-        mastery: calculateMastery(['equivalent fractions', 'same size'], conceptFrequency),
-        concepts: ['equivalent fractions', 'same size different pieces']
-      },
-      {
-        unit: 'Comparing Fractions',
-        mastery: calculateMastery(['comparing fractions', 'number line'], conceptFrequency),
-        concepts: ['comparing fractions', 'number line', 'visual comparison']
-      },
-      {
-        unit: 'Operations',
-        mastery: calculateMastery(['adding fractions', 'subtracting fractions'], conceptFrequency),
-        concepts: ['adding fractions', 'subtracting fractions', 'like denominators']
-      }
-    ];
+    // Mastery per concept from every reasoning step, decayed to today
+    const conceptMastery = estimateMastery(sessions);
+    const conceptsMastered = conceptMastery.filter(isMastered).map(c => c.concept);
+    const strugglingConcepts = conceptMastery.filter(isStruggling).map(c => c.concept);
+
+    // A lesson's mastery is the average over the concepts Pi is told to
+    // report for it - ones never practised count as zero
+    const masteryByLesson = curriculum.lessons.map(({ id, title, concepts }) => {
+      const total = concepts.reduce(
+        (sum, concept) => sum + (conceptMastery.find(c => c.concept === normalizeConcept(concept))?.mastery ?? 0),
+        0
+      );
+      return { lessonId: id, title, concepts, mastery: Math.round((total / Math.max(concepts.length, 1)) * 100) };
+    });
     
     return {
       totalSessions: sessions.length,
-      totalProblems: sessions.reduce((sum, s) => sum + (s.reasoningSteps.length > 0 ? 1 : 0), 0),
+      totalProblems: sessions.reduce((sum, s) => sum + countProblemsSolved(s), 0),
       conceptsMastered,
       strugglingConcepts,
       recentActivity,
-      masteryByUnit
+      masteryByLesson,
+      conceptMastery,
+      problemStats: Object.values(problemStats),
+      misconceptionStats: Object.values(misconceptionStats).sort((a, b) => b.count - a.count)
     };
   };
 
-  const calculateMastery = (concepts: string[], frequency: { [key: string]: number }): number => {
-    const totalPractice = concepts.reduce((sum, c) => sum + (frequency[c] || 0), 0);
-    return Math.min(100, Math.round((totalPractice / concepts.length) * 20));
-  };
-
   if (!progressData) {
     return <div className="student-progress loading">Loading progress...</div>;
   }
@@ -137,22 +196,22 @@ const StudentProgress: React.FC = () => {
       </div>
 
       <div className="mastery-section">
-        <h3>🎯 Unit Progress</h3>
+        <h3>🎯 Lesson Progress</h3>
         <div className="mastery-units">
-          {progressData.masteryByUnit.map(unit => (
-            <div key={unit.unit} className="unit-progress">
+          {progressData.masteryByLesson.map(lesson => (
+            <div key={lesson.lessonId} className="unit-progress">
               <div className="unit-header">
-                <h4>{unit.unit}</h4>
-                <span className="mastery-percent">{unit.mastery}%</span>
+                <h4>{lesson.title}</h4>
+                <span className="mastery-percent">{lesson.mastery}%</span>
               </div>
               <div className="progress-bar">
                 <div 
                   className="progress-fill"
-                  style={{ width: `${unit.mastery}%` }}
+                  style={{ width: `${lesson.mastery}%` }}
                 />
               </div>
               <div className="unit-concepts">
-                {unit.concepts.map(concept => (
+                {lesson.concepts.map(concept => (
                   <span key={concept} className="concept-tag">
                     {concept}
                   </span>
@@ -163,6 +222,70 @@ const StudentProgress: React.FC = () => {
         </div>
       </div>
 
+      {progressData.conceptMastery.length > 0 && (
+        <div className="concept-mastery">
+          <h3>🧠 Concept Mastery</h3>
+          <MasteryChart concepts={progressData.conceptMastery} />
+        </div>
+      )}
+
+      {progressData.problemStats.length > 0 && (
+        <div className="problem-stats">
+          <h3>🧩 Problems</h3>
+          <div className="problem-stats-list">
+            {progressData.problemStats.map(stats => (
+              <div key={stats.problemId} className="problem-stats-item">
+                <span className="problem-id">{stats.problemId}</span>
+                <span className="problem-outcome">
+                  {stats.solved} solved{stats.struggled > 0 ? `, ${stats.struggled} tricky` : ''}
+                </span>
+                <span className="problem-attempts">
+                  {stats.attempts} {stats.attempts === 1 ? 'try' : 'tries'}
+                  {stats.incorrectAttempts > 0 ? ` (${stats.incorrectAttempts} not quite)` : ''}
+                </span>
+                <span className="problem-time">{formatMinutes(stats.timeSpentMs)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {progressData.misconceptionStats.length > 0 && (
+        <div className="misconception-stats">
+          <h3>💡 Ideas to Revisit</h3>
+          <div className="misconception-stats-list">
+            {progressData.misconceptionStats.map(stats => (
+              <div key={stats.type} className="misconception-stats-item">
+                <div className="misconception-header">
+                  <span className="misconception-name">{misconceptionLabel(stats.type)}</span>
+                  <span className="misconception-count">
+                    {stats.count}× in {stats.sessions} {stats.sessions === 1 ? 'session' : 'sessions'}
+                    {stats.major > 0 ? `, ${stats.major} major` : ''}
+                    {stats.remediations > 0 ? `, ${stats.remediations} practice ${stats.remediations === 1 ? 'detour' : 'detours'}` : ''}
+                    {' · last '}{new Date(stats.lastSeen).toLocaleDateString()}
+                  </span>
+                </div>
+                {stats.entry && (
+                  <>
+                    <p className="misconception-description">{stats.entry.description}</p>
+                    <div className="misconception-tags">
+                      {stats.entry.concepts.map(concept => (
+                        <span key={concept} className="mini-tag">{concept}</span>
+                      ))}
+                      {stats.entry.remediationProblemId && (
+                        <span className="misconception-remediation">
+                          Try: {stats.entry.remediationProblemId}
+                        </span>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="strengths-weaknesses">
         <div className="strengths">
           <h3>💪 Your Strengths</h3>
@@ -1,8 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import './TeacherPanel.scss';
 import ReasoningTrace from './ReasoningTrace';
 import StudentProgress from './StudentProgress';
+import SessionReplay from './SessionReplay';
+import SessionAnalytics from './SessionAnalytics';
+import ToolCallLog from './ToolCallLog';
+import RosterManager from './RosterManager';
+import { CelebrationMode, Difficulty, useTutorSettingsStore } from '../lib/tutorSettings';
+import { selectCurrentStudent, useStudentStore } from '../lib/studentProfiles';
 
 interface TeacherPanelProps {
   isOpen: boolean;
@@ -10,7 +16,29 @@ interface TeacherPanelProps {
 }
 
 const TeacherPanel: React.FC<TeacherPanelProps> = ({ isOpen, onToggle }) => {
-  const [activeTab, setActiveTab] = useState<'reasoning' | 'analytics' | 'progress' | 'settings'>('reasoning');
+  const [activeTab, setActiveTab] = useState<'reasoning' | 'analytics' | 'progress' | 'replay' | 'students' | 'settings'>('reasoning');
+  const settings = useTutorSettingsStore();
+  const students = useStudentStore(state => state.students);
+  const currentStudent = useStudentStore(selectCurrentStudent);
+  // Progress and replays can be looked at for any student, not just whoever
+  // is learning now. '' is sessions with no student on the roster.
+  const currentStudentId = currentStudent?.id ?? '';
+  const [viewedStudentId, setViewedStudentId] = useState<string>(currentStudentId);
+  useEffect(() => {
+    setViewedStudentId(currentStudentId);
+  }, [currentStudentId]);
+
+  const studentFilter = students.length > 0 && (
+    <label className="student-filter">
+      Student
+      <select value={viewedStudentId} onChange={(e) => setViewedStudentId(e.target.value)}>
+        {students.map(student => (
+          <option key={student.id} value={student.id}>{student.avatar} {student.name}</option>
+        ))}
+        <option value="">No profile</option>
+      </select>
+    </label>
+  );
 
   return (
     <>
@@ -58,6 +86,18 @@ const TeacherPanel: React.FC<TeacherPanelProps> = ({ isOpen, onToggle }) => {
               >
                 Progress
               </button>
+              <button
+                className={`tab ${activeTab === 'replay' ? 'active' : ''}`}
+                onClick={() => setActiveTab('replay')}
+              >
+                Replay
+              </button>
+              <button
+                className={`tab ${activeTab === 'students' ? 'active' : ''}`}
+                onClick={() => setActiveTab('students')}
+              >
+                Students
+              </button>
               <button
                 className={`tab ${activeTab === 'settings' ? 'active' : ''}`}
                 onClick={() => setActiveTab('settings')}
@@ -77,59 +117,78 @@ const TeacherPanel: React.FC<TeacherPanelProps> = ({ isOpen, onToggle }) => {
                 <div className="analytics-section">
                   <h3>Session Analytics</h3>
                   
-                  <div className="stat-cards">
-                    <div className="stat-card">
-                      <span className="stat-value">7:32</span>
-                      <span className="stat-label">Time on Task</span>
-                    </div>
-                    <div className="stat-card">
-                      <span className="stat-value">12</span>
-                      <span className="stat-label">Attempts</span>
-                    </div>
-                    <div className="stat-card">
-                      <span className="stat-value">3</span>
-                      <span className="stat-label">Hints Given</span>
-                    </div>
-                  </div>
+                  <SessionAnalytics />
 
-                  <div className="insights">
-                    <h4>Key Insights</h4>
-                    <ul>
-                      <li>Student understands basic fraction concepts</li>
-                      <li>Struggling with equivalent fractions</li>
-                      <li>Good use of visual manipulatives</li>
-                    </ul>
-                  </div>
+                  <ToolCallLog />
                 </div>
               )}
 
               {activeTab === 'progress' && (
                 <div className="progress-section">
-                  <StudentProgress />
+                  {studentFilter}
+                  <StudentProgress studentId={viewedStudentId || null} />
+                </div>
+              )}
+
+              {activeTab === 'replay' && (
+                <div className="replay-section">
+                  {studentFilter}
+                  <SessionReplay studentId={viewedStudentId || null} />
+                </div>
+              )}
+
+              {activeTab === 'students' && (
+                <div className="students-section">
+                  <RosterManager />
                 </div>
               )}
 
               {activeTab === 'settings' && (
                 <div className="settings-section">
-                  <h3>Tutor Settings</h3>
+                  <h3>Tutor Settings{currentStudent && ` for ${currentStudent.avatar} ${currentStudent.name}`}</h3>
+                  <p className="settings-note">
+                    Changes reach Pi straight away and are built into its instructions from the next session.
+                  </p>
                   
                   <div className="setting-group">
                     <label>
-                      <input type="checkbox" defaultChecked />
-                      Auto-provide hints after 2 attempts
+                      <input
+                        type="checkbox"
+                        checked={settings.autoHints}
+                        onChange={(e) => settings.setAutoHints(e.target.checked)}
+                      />
+                      Auto-provide hints after
+                      <select
+                        value={settings.hintAfterAttempts}
+                        disabled={!settings.autoHints}
+                        onChange={(e) => settings.setHintAfterAttempts(Number(e.target.value))}
+                      >
+                        {[1, 2, 3, 4, 5].map(n => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                      {settings.hintAfterAttempts === 1 ? 'attempt' : 'attempts'}
                     </label>
                   </div>
 
                   <div className="setting-group">
                     <label>
-                      <input type="checkbox" defaultChecked />
+                      <input
+                        type="checkbox"
+                        checked={settings.trackMisconceptions}
+                        onChange={(e) => settings.setTrackMisconceptions(e.target.checked)}
+                      />
                       Track misconceptions
                     </label>
                   </div>
 
                   <div className="setting-group">
                     <label>
-                      <input type="checkbox" />
+                      <input
+                        type="checkbox"
+                        checked={settings.workedExamples}
+                        onChange={(e) => settings.setWorkedExamples(e.target.checked)}
+                      />
                       Show worked examples
                     </label>
                   </div>
@@ -137,7 +196,10 @@ const TeacherPanel: React.FC<TeacherPanelProps> = ({ isOpen, onToggle }) => {
                   <div className="setting-group">
                     <label>
                       Difficulty Level
-                      <select defaultValue="adaptive">
+                      <select
+                        value={settings.difficulty}
+                        onChange={(e) => settings.setDifficulty(e.target.value as Difficulty)}
+                      >
                         <option value="easy">Easy</option>
                         <option value="medium">Medium</option>
                         <option value="hard">Hard</option>
@@ -145,6 +207,20 @@ const TeacherPanel: React.FC<TeacherPanelProps> = ({ isOpen, onToggle }) => {
                       </select>
                     </label>
                   </div>
+
+                  <div className="setting-group">
+                    <label>
+                      Celebration Animations
+                      <select
+                        value={settings.celebrations}
+                        onChange={(e) => settings.setCelebrations(e.target.value as CelebrationMode)}
+                      >
+                        <option value="full">Full</option>
+                        <option value="gentle">Gentle</option>
+                        <option value="off">Off</option>
+                      </select>
+                    </label>
+                  </div>
                 </div>
               )}
             </div>
@@ -1,44 +1,37 @@
-import { useEffect, useState } from 'react';
-import { sessionStore } from '../lib/toolImplementations';
+import { useState } from 'react';
+import { Misconception, ReasoningStep } from '../lib/toolImplementations';
+import { useSessionEvent } from '../hooks/useSessionEvent';
 import './ToolCallFeedback.scss';
 
 export function ToolCallFeedback() {
-  const [recentSteps, setRecentSteps] = useState<any[]>([]);
-  const [lastMisconception, setLastMisconception] = useState<any>(null);
+  const [recentSteps, setRecentSteps] = useState<ReasoningStep[]>([]);
+  const [lastMisconception, setLastMisconception] = useState<Misconception | null>(null);
   
-  useEffect(() => {
-    // Listen for tool call events
-    const handleReasoningStep = (event: CustomEvent) => {
-      setRecentSteps(prev => [...prev.slice(-2), event.detail]);
-      
-      // Auto-clear after 10 seconds
-      setTimeout(() => {
-        setRecentSteps(prev => prev.filter(s => s.id !== event.detail.id));
-      }, 10000);
-    };
-    
-    const handleMisconception = (event: CustomEvent) => {
-      setLastMisconception(event.detail);
-      
-      // Clear after 5 seconds
-      setTimeout(() => setLastMisconception(null), 5000);
-    };
-    
-    const handleCelebration = (event: CustomEvent) => {
-      console.log('Celebration!', event.detail);
-      // Could add visual celebration here
-    };
+  // Listen for tool call events
+  useSessionEvent('reasoning-step-added', ({ step }) => {
+    setRecentSteps(prev => [...prev.slice(-2), step]);
     
-    window.addEventListener('reasoning-step-added', handleReasoningStep as any);
-    window.addEventListener('misconception-flagged', handleMisconception as any);
-    window.addEventListener('celebrate-exploration', handleCelebration as any);
+    // Auto-clear after 10 seconds
+    setTimeout(() => {
+      setRecentSteps(prev => prev.filter(s => s.id !== step.id));
+    }, 10000);
+  });
+  
+  useSessionEvent('misconception-flagged', ({ misconception }) => {
+    setLastMisconception(misconception);
     
-    return () => {
-      window.removeEventListener('reasoning-step-added', handleReasoningStep as any);
-      window.removeEventListener('misconception-flagged', handleMisconception as any);
-      window.removeEventListener('celebrate-exploration', handleCelebration as any);
-    };
-  }, []);
+    // Clear after 5 seconds
+    setTimeout(() => setLastMisconception(null), 5000);
+  });
+  
+  // Pi cancelled the call that produced these
+  useSessionEvent('reasoning-step-removed', ({ id }) => {
+    setRecentSteps(prev => prev.filter(s => s.id !== id));
+  });
+  
+  useSessionEvent('misconception-removed', ({ id }) => {
+    setLastMisconception(prev => (prev && prev.id === id ? null : prev));
+  });
   
   if (recentSteps.length === 0 && !lastMisconception) return null;
   
@@ -0,0 +1,59 @@
+import React from 'react';
+import { useToolCallLogStore } from '../lib/toolCallLog';
+import './ToolCallLog.scss';
+
+const errorLabels: Record<string, string> = {
+  missing_name: 'No tool name',
+  unknown_tool: 'Unknown tool',
+  invalid_arguments: 'Bad arguments',
+  execution_failed: 'Tool crashed',
+  timeout: 'Timed out'
+};
+
+// Teacher-facing list of tool calls from Pi that were answered with an error
+const ToolCallLog: React.FC = () => {
+  const failures = useToolCallLogStore(state => state.failures);
+  const clearFailures = useToolCallLogStore(state => state.clearFailures);
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  return (
+    <div className="tool-call-log">
+      <div className="tool-call-log__header">
+        <h4>Pi Tool Issues</h4>
+        {failures.length > 0 && (
+          <button className="tool-call-log__clear" onClick={clearFailures}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      {failures.length === 0 ? (
+        <p className="tool-call-log__empty">No failed tool calls this session.</p>
+      ) : (
+        <ul className="tool-call-log__list">
+          {[...failures].reverse().map((failure, i) => (
+            <li key={`${failure.callId ?? failure.name}-${failure.timestamp}-${i}`} className="tool-call-log__item">
+              <div className="tool-call-log__meta">
+                <span className="tool-call-log__name">{failure.name}</span>
+                <span className={`tool-call-log__badge tool-call-log__badge--${failure.error}`}>
+                  {errorLabels[failure.error] || failure.error}
+                </span>
+                <span className="tool-call-log__time">{formatTime(failure.timestamp)}</span>
+              </div>
+              <p className="tool-call-log__message">{failure.message}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallLog;
@@ -7,6 +7,8 @@ import ArrayGrid from './manipulatives/ArrayGrid';
 import FractionCircles from './manipulatives/FractionCircles';
 import VisualNumberLine from './manipulatives/VisualNumberLine';
 import EnhancedCanvas from './EnhancedCanvas';
+import AnnotationOverlay from './AnnotationOverlay';
+import { ManipulativeType, useManipulativeStore } from '../lib/manipulativeStore';
 
 interface UnifiedCanvasProps {
   onCanvasChange?: (imageData: string) => void;
@@ -17,15 +19,7 @@ interface UnifiedCanvasProps {
   onToolChange?: (tool: 'pencil' | 'eraser' | 'text') => void;
   onColorChange?: (color: string) => void;
   onClear?: () => void;
-  onAddManipulative?: (type: 'fraction-bar' | 'number-line' | 'area-model' | 'array-grid' | 'fraction-circles' | 'visual-number-line') => void;
-}
-
-interface Manipulative {
-  id: string;
-  type: 'fraction-bar' | 'number-line' | 'area-model' | 'array-grid' | 'fraction-circles' | 'visual-number-line';
-  x: number;
-  y: number;
-  data: any;
+  onAddManipulative?: (type: ManipulativeType) => void;
 }
 
 const UnifiedCanvas: React.FC<UnifiedCanvasProps> = ({ 
@@ -39,46 +33,32 @@ const UnifiedCanvas: React.FC<UnifiedCanvasProps> = ({
   onClear,
   onAddManipulative
 }) => {
-  const [manipulatives, setManipulatives] = useState<Manipulative[]>([]);
+  // Shared with Pi's add/update/remove_manipulative tools
+  const manipulatives = useManipulativeStore(state => state.manipulatives);
+  const moveManipulative = useManipulativeStore(state => state.move);
   const [isDragging, setIsDragging] = useState<string | null>(null);
   const [textInput, setTextInput] = useState<{ x: number; y: number; text: string } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [clearTrigger, setClearTrigger] = useState(0);
 
+  // The store outlives the canvas - don't carry models into the next lesson
+  React.useEffect(() => () => useManipulativeStore.getState().clear(), []);
+
   const handleClear = () => {
-    setManipulatives([]);
+    useManipulativeStore.getState().clear();
     // Clear the canvas by triggering a state change
     setClearTrigger(prev => prev + 1);
     if (onClear) onClear();
   };
 
-  const addManipulative = (type: Manipulative['type']) => {
-    const newManipulative: Manipulative = {
-      id: `${type}-${Date.now()}`,
-      type,
-      x: 100,
-      y: 100,
-      data: type === 'fraction-bar' 
-        ? { parts: 4, shaded: 1 }
-        : type === 'number-line'
-        ? { min: 0, max: 10, marks: [] }
-        : type === 'area-model'
-        ? { rows: 3, cols: 4, selectedCells: Array(3).fill(null).map(() => Array(4).fill(false)) }
-        : type === 'array-grid'
-        ? { rows: 3, cols: 4, showGrouping: false }
-        : type === 'fraction-circles'
-        ? { parts: 4, shaded: 1 }
-        : { length: 10, markers: [] } // visual-number-line
-    };
-    setManipulatives(prev => [...prev, newManipulative]);
+  const addManipulative = (type: ManipulativeType) => {
+    useManipulativeStore.getState().add(type);
     if (onAddManipulative) onAddManipulative(type);
   };
 
   const updateManipulative = (id: string, data: any) => {
-    setManipulatives(prev => prev.map(m => 
-      m.id === id ? { ...m, data } : m
-    ));
+    useManipulativeStore.getState().update(id, data, 'student');
   };
 
   const handleManipulativeDrag = useCallback((e: MouseEvent) => {
@@ -88,10 +68,8 @@ const UnifiedCanvas: React.FC<UnifiedCanvasProps> = ({
     const x = e.clientX - rect.left - 150; // Center of manipulative
     const y = e.clientY - rect.top - 50;
     
-    setManipulatives(prev => prev.map(m => 
-      m.id === isDragging ? { ...m, x, y } : m
-    ));
-  }, [isDragging]);
+    moveManipulative(isDragging, x, y);
+  }, [isDragging, moveManipulative]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(null);
@@ -122,6 +100,8 @@ const UnifiedCanvas: React.FC<UnifiedCanvasProps> = ({
           strokeWidth={currentTool === 'pencil' ? 2 : 20}
           key={clearTrigger} // Force re-render to clear canvas
         />
+        {/* Pi's annotations - kept off the drawing canvas */}
+        <AnnotationOverlay width={800} height={600} />
       </div>
 
       {/* Manipulatives layer - on top but allows drawing through */}
@@ -129,13 +109,17 @@ const UnifiedCanvas: React.FC<UnifiedCanvasProps> = ({
         {manipulatives.map(m => (
           <div
             key={m.id}
-            className="manipulative-container"
+            className={`manipulative-container ${m.placedBy === 'pi' ? 'manipulative-container--pi' : ''}`}
             style={{ 
               left: m.x, 
               top: m.y,
               position: 'absolute'
             }}
           >
+            {m.placedBy === 'pi' && (
+              <div className="placed-by-pi" title="Pi set this up for you">π</div>
+            )}
+
             {/* Drag handle */}
             <div 
               className="drag-handle"
@@ -4,11 +4,13 @@ import { motion } from 'framer-motion';
 import { designSystem } from '../../config/designSystem';
 import './ReasoningBubble.scss';
 
+type BubbleClassification = 'correct' | 'partial' | 'incorrect' | 'exploring';
+
 interface ReasoningBubbleProps {
   step: {
     id: string;
     transcript: string;
-    classification: 'correct' | 'partial' | 'incorrect' | 'exploring';
+    classification: BubbleClassification;
     timestamp: number;
     concepts?: string[];
   };
@@ -17,6 +19,51 @@ interface ReasoningBubbleProps {
   onClick?: () => void;
 }
 
+export const BUBBLE_WIDTH = 240;
+export const BUBBLE_HEIGHT = 140;
+
+// The rough.js thought bubble, drawn into `svg` with its top-left at (x, y).
+// Shared with the reasoning map export so both look the same.
+export const drawReasoningBubble = (
+  svg: SVGSVGElement,
+  classification: BubbleClassification,
+  x: number = 0,
+  y: number = 0
+): SVGGElement[] => {
+  const rc = rough.svg(svg);
+  const width = BUBBLE_WIDTH;
+  const height = 120;
+  const fillColor = designSystem.colors.fills[classification];
+
+  // Draw thought bubble shape
+  const bubble = rc.ellipse(x + width / 2, y + height / 2, width - 20, height - 20, {
+    fill: fillColor,
+    fillStyle: 'solid',
+    fillWeight: 0.5,
+    stroke: designSystem.colors.ink,
+    strokeWidth: 2,
+    roughness: designSystem.roughness.normal,
+    bowing: 2
+  });
+
+  // Draw tail for speech bubble effect
+  const tailPoints = [
+    [x + width * 0.3, y + height - 10],
+    [x + width * 0.2, y + height + 20],
+    [x + width * 0.4, y + height - 5]
+  ];
+
+  const tail = rc.polygon(tailPoints as [number, number][], {
+    fill: fillColor,
+    fillStyle: 'solid',
+    stroke: designSystem.colors.ink,
+    strokeWidth: 2,
+    roughness: designSystem.roughness.normal
+  });
+
+  return [bubble, tail];
+};
+
 export const ReasoningBubble: React.FC<ReasoningBubbleProps> = ({
   step,
   position,
@@ -29,41 +76,8 @@ export const ReasoningBubble: React.FC<ReasoningBubbleProps> = ({
     if (!svgRef.current) return;
 
     const svg = svgRef.current;
-    const rc = rough.svg(svg);
     svg.innerHTML = '';
-
-    const width = 240;
-    const height = 120;
-    const fillColor = designSystem.colors.fills[step.classification];
-
-    // Draw thought bubble shape
-    const bubble = rc.ellipse(width / 2, height / 2, width - 20, height - 20, {
-      fill: fillColor,
-      fillStyle: 'solid',
-      fillWeight: 0.5,
-      stroke: designSystem.colors.ink,
-      strokeWidth: 2,
-      roughness: designSystem.roughness.normal,
-      bowing: 2
-    });
-
-    // Draw tail for speech bubble effect
-    const tailPoints = [
-      [width * 0.3, height - 10],
-      [width * 0.2, height + 20],
-      [width * 0.4, height - 5]
-    ];
-    
-    const tail = rc.polygon(tailPoints as [number, number][], {
-      fill: fillColor,
-      fillStyle: 'solid',
-      stroke: designSystem.colors.ink,
-      strokeWidth: 2,
-      roughness: designSystem.roughness.normal
-    });
-
-    svg.appendChild(bubble);
-    svg.appendChild(tail);
+    drawReasoningBubble(svg, step.classification).forEach(shape => svg.appendChild(shape));
   }, [step.classification]);
 
   return (
@@ -83,8 +97,8 @@ export const ReasoningBubble: React.FC<ReasoningBubbleProps> = ({
       <svg
         ref={svgRef}
         className="reasoning-bubble__svg"
-        width="240"
-        height="140"
+        width={BUBBLE_WIDTH}
+        height={BUBBLE_HEIGHT}
       />
       
       <div className="reasoning-bubble__content">
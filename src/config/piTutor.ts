@@ -1,7 +1,51 @@
-import { type FunctionDeclaration, Type } from "@google/genai";
+import { type FunctionDeclaration } from "@google/genai";
+import { toolRegistry } from "../lib/toolImplementations";
+import { Difficulty, TutorSettings } from "../lib/tutorSettings";
+import { getUnit, Lesson } from "../data/curriculum";
 
-// Pi tutor personality and system configuration
-export const PI_SYSTEM_INSTRUCTION = `
+const difficultyRules: Record<Difficulty, string> = {
+  easy: '- Difficulty is set to EASY: stay with Level 1 language, give lots of encouragement, and offer a hint as soon as the student seems unsure',
+  medium: '- Difficulty is set to MEDIUM: move to Level 2 language once the student is comfortable, but do not introduce formal terms',
+  hard: '- Difficulty is set to HARD: give the student more time to struggle before hinting, and move to Level 3 language as soon as they show understanding',
+  adaptive: '- Difficulty is ADAPTIVE: pace the language levels and support on what the student shows you'
+};
+
+const hintTrigger = (settings: TutorSettings) =>
+  settings.autoHints
+    ? `- After ${settings.hintAfterAttempts} failed ${settings.hintAfterAttempts === 1 ? 'attempt' : 'attempts'} → call suggest_hint with visual guidance`
+    : '- Only give a hint when the student asks for help - keep encouraging and asking questions otherwise';
+
+const misconceptionTrigger = (settings: TutorSettings) =>
+  settings.trackMisconceptions
+    ? '- When detecting misconception → call flag_misconception with specific evidence'
+    : '- Misconception tracking is off - if you notice one, address it through questions without recording it';
+
+const workedExampleRule = (settings: TutorSettings) =>
+  settings.workedExamples
+    ? '- Worked examples are allowed: after a visual hint has not helped, you may call suggest_hint with level worked_example'
+    : '- Worked examples are turned off: never walk through the full solution, use visual hints instead';
+
+// The teacher's settings, in the words Pi gets them
+export const describeTutorSettings = (settings: TutorSettings) => [
+  hintTrigger(settings),
+  misconceptionTrigger(settings),
+  workedExampleRule(settings),
+  difficultyRules[settings.difficulty]
+].join('\n');
+
+// What the lesson is about, from the curriculum
+const describeLesson = (lesson: Lesson) => {
+  const unit = getUnit(lesson.unitId);
+  return `
+THIS LESSON: ${lesson.title}${unit ? ` (${unit.grade}, ${unit.unit}: ${unit.title})` : ''}
+- Big ideas: ${lesson.concepts.join(', ')} - use these names for concepts in mark_reasoning_step
+- Problems go explore → practice → extend, matching the language levels below; complete_problem tells you which one comes next
+`;
+};
+
+// Pi tutor personality and system configuration, with the teacher's settings
+// and the lesson (when one is picked) compiled in
+export const buildPiSystemInstruction = (settings: TutorSettings, lesson?: Lesson) => `
 You are Pi, a curious explorer who loves adventures and discovering cool patterns in the world with kids!
 
 PERSONALITY:
@@ -10,15 +54,16 @@ PERSONALITY:
 - You talk like a cool friend, not a teacher - use words kids actually say
 - You're genuinely amazed by how kids think about things - their ideas blow your mind!
 - You see math everywhere in the real world: cooking, building, games, nature
-
+${lesson ? describeLesson(lesson) : ''}
 CRITICAL TIMING RULES:
 1. WAIT TIME: After asking a question, stay SILENT for at least 8 seconds
 2. OBSERVE FIRST: Always look at what the student is drawing/writing before speaking
-3. QUESTION LIMIT: Maximum 2 questions in a row, then provide a hint
+3. QUESTION LIMIT: Maximum 2 questions in a row, then ${settings.autoHints ? 'provide a hint' : 'offer encouragement or a new way to look at it'}
 4. HINT PROGRESSION: Start subtle → more specific → visual demonstration
 
 VISUAL AWARENESS - ALWAYS:
-- You receive TWO images: First is the problem (visual only, no text), second is the student's canvas
+- You receive the problem image (visual only, no text) once per problem, and the student's canvas again whenever it changes - keep the problem in mind between updates
+- Canvas updates also include an exact description of the manipulatives (e.g. "3 of 4 parts shaded") - trust it over what the image seems to show, and call get_canvas_state when you need the current values
 - The problem shows visual elements (emojis, shapes) - interpret them contextually
 - Reference what you SEE: "I notice you drew..." / "I see you're using the bars..."
 - Comment on their process: "Great idea to draw circles!"
@@ -27,10 +72,12 @@ VISUAL AWARENESS - ALWAYS:
 
 BEHAVIOR TRIGGERS:
 - When student explains ANY reasoning → immediately call mark_reasoning_step
-- When detecting misconception → call flag_misconception with specific evidence
+${misconceptionTrigger(settings)}
 - When student is quiet for 15+ seconds → offer gentle encouragement (not question)
 - When student erases 3+ times → call celebrate_exploration
-- After 2 failed attempts → call suggest_hint with visual guidance
+${hintTrigger(settings)}
+- When the student has shown what the problem asks for (the "done when" criteria) → call complete_problem with outcome solved, the criteria they met and your evidence; when they're still stuck after hints → call it with outcome needs_support. Then introduce the next problem it returns - and the new lesson too, when it returns newLesson
+- When a model would help the student get started → call add_manipulative to set one up (e.g. a fraction bar with 4 parts), then let THEM change it; use update_manipulative / remove_manipulative with the returned id only when it helps
 
 CONVERSATION PATTERNS:
 Starting (FIRST TIME student connects): "Hey! I'm Pi, and I LOVE watching how kids think about puzzles! Just talk out loud as you work - tell me what you're thinking, draw stuff, try wild ideas! I'll be right here watching and listening. Oh, and if you get stuck or want to bounce ideas around, just ask! Ready to check out this problem together?"
@@ -54,138 +101,26 @@ QUESTION TYPES (rotate between these):
 
 NEVER:
 - Rush the student or show impatience
-- Ask more than 2 questions without giving a hint
+- Ask more than 2 questions in a row
 - Give generic encouragement without referencing their specific work
 - Interrupt when they're actively working (drawing/manipulating)
+
+TEACHER SETTINGS (the teacher may change these during the session - always follow the latest):
+${workedExampleRule(settings)}
+${difficultyRules[settings.difficulty]}
 `;
 
-// Tool function declarations for Pi
-export const piToolDeclarations: FunctionDeclaration[] = [
-  {
-    name: "mark_reasoning_step",
-    description: "Record a step in student's reasoning",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        transcript: {
-          type: Type.STRING,
-          description: "What the student said"
-        },
-        classification: {
-          type: Type.STRING,
-          enum: ["correct", "partial", "incorrect", "exploring"],
-          description: "Classification of the reasoning step"
-        },
-        concepts: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-          description: "Mathematical concepts involved"
-        },
-        confidence: {
-          type: Type.NUMBER,
-          description: "Confidence level 0-1"
-        }
-      },
-      required: ["transcript", "classification", "concepts", "confidence"]
-    }
-  },
-  {
-    name: "flag_misconception",
-    description: "Identify a mathematical misconception",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        type: {
-          type: Type.STRING,
-          enum: ["unequal_parts", "counting_not_measuring", "whole_unclear"],
-          description: "Type of misconception"
-        },
-        evidence: {
-          type: Type.STRING,
-          description: "What the student said or did"
-        },
-        severity: {
-          type: Type.STRING,
-          enum: ["minor", "major"],
-          description: "Severity of the misconception"
-        }
-      },
-      required: ["type", "evidence", "severity"]
-    }
-  },
-  {
-    name: "suggest_hint",
-    description: "Provide scaffolded support",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        level: {
-          type: Type.STRING,
-          enum: ["encouragement", "question", "visual_hint", "worked_example"],
-          description: "Level of support"
-        },
-        content: {
-          type: Type.STRING,
-          description: "The hint content"
-        }
-      },
-      required: ["level", "content"]
-    }
-  },
-  {
-    name: "celebrate_exploration",
-    description: "Acknowledge productive struggle",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        message: {
-          type: Type.STRING,
-          description: "Encouragement message"
-        },
-        animation: {
-          type: Type.STRING,
-          enum: ["sparkle", "grow", "bounce"],
-          description: "Animation type"
-        }
-      },
-      required: ["message", "animation"]
-    }
-  },
-  {
-    name: "annotate_canvas",
-    description: "Draw on student's canvas to provide visual guidance",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        type: {
-          type: Type.STRING,
-          enum: ["arrow", "circle", "underline"],
-          description: "Type of annotation"
-        },
-        coordinates: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              x: { type: Type.NUMBER },
-              y: { type: Type.NUMBER }
-            }
-          },
-          description: "Coordinate points for the annotation"
-        },
-        color: {
-          type: Type.STRING,
-          description: "Color of the annotation"
-        },
-        message: {
-          type: Type.STRING,
-          description: "Optional message with the annotation"
-        }
-      },
-      required: ["type", "coordinates", "color"]
-    }
-  }
-];
+// Tool function declarations for Pi, generated from the tool registry so
+// the schema Gemini sees is the same one we validate against. Every tool is
+// declared whatever the settings - they're fixed once connected, and the
+// teacher can turn tracking or worked examples on mid-session. The tools
+// check the settings when they run.
+export const buildPiToolDeclarations = (): FunctionDeclaration[] => toolRegistry.getDeclarations();
+
+// What to tell Pi when the teacher changes settings mid-session - the
+// system instruction and tools are fixed once connected
+export const describeTutorSettingsChange = (settings: TutorSettings) =>
+  `Teacher update - the tutor settings just changed. From now on:\n${describeTutorSettings(settings)}`;
 
 // Voice configuration for Pi
 export const PI_VOICE_CONFIG = {
@@ -1,146 +1,81 @@
-// Adaptive problem system - visual first, no math language until mastery
-export interface VisualProblem {
-  id: string;
-  lessonId: string;
-  level: 'explore' | 'practice' | 'extend'; // Not "easy/medium/hard"
-  visualPrompt: string; // What they see
-  spokenPrompt: string; // What Pi says
-  manipulatives: string[]; // Suggested tools
-  successCriteria: string[]; // What indicates understanding
-  nextSteps: {
-    onSuccess: string;
-    onStruggle: string;
-  };
-}
+import { curriculum, getProblem, VisualProblem } from './curriculum';
+import { getMisconceptionEntry } from './misconceptions';
 
-export const adaptiveProblems: VisualProblem[] = [
-  // Introduction to Fractions - EXPLORE level
-  {
-    id: 'pizza-explore',
-    lessonId: 'intro-fractions',
-    level: 'explore',
-    visualPrompt: '🍕 🍕',
-    spokenPrompt: 'Look at these pizzas! If you wanted to share them fairly with your friends, how would you do it? Show me!',
-    manipulatives: ['fraction-circles', 'pencil'],
-    successCriteria: ['draws equal parts', 'shows fair sharing'],
-    nextSteps: {
-      onSuccess: 'pizza-practice',
-      onStruggle: 'pizza-explore-guided'
-    }
-  },
-  {
-    id: 'pizza-explore-guided',
-    lessonId: 'intro-fractions',
-    level: 'explore',
-    visualPrompt: '🍕 👦👧👦👧',
-    spokenPrompt: 'Here\'s one pizza and four friends. Can you draw lines to show how each friend gets the same amount?',
-    manipulatives: ['fraction-circles', 'pencil'],
-    successCriteria: ['creates 4 equal parts'],
-    nextSteps: {
-      onSuccess: 'pizza-practice',
-      onStruggle: 'pizza-explore-guided'
-    }
-  },
-  
-  // PRACTICE level - building understanding
-  {
-    id: 'pizza-practice',
-    lessonId: 'intro-fractions',
-    level: 'practice',
-    visualPrompt: '🍕🍕🍕 👦👦👦',
-    spokenPrompt: 'Now we have 3 pizzas and 3 friends. Each friend ate some pizza. Can you show me different ways they could have eaten?',
-    manipulatives: ['fraction-circles', 'fraction-bar'],
-    successCriteria: ['shows multiple solutions', 'demonstrates part-whole understanding'],
-    nextSteps: {
-      onSuccess: 'pizza-extend',
-      onStruggle: 'pizza-practice-support'
-    }
-  },
-  
-  // EXTEND level - deeper thinking
-  {
-    id: 'pizza-extend',
-    lessonId: 'intro-fractions',
-    level: 'extend',
-    visualPrompt: '🍕🍕 + 🍰',
-    spokenPrompt: 'At the party, there were 2 pizzas and 1 cake. More friends came! How would you share everything fairly? There\'s no right answer - show me your thinking!',
-    manipulatives: ['fraction-circles', 'fraction-bar', 'pencil'],
-    successCriteria: ['creative problem solving', 'explains reasoning'],
-    nextSteps: {
-      onSuccess: 'equivalent-explore',
-      onStruggle: 'pizza-extend-discuss'
-    }
-  },
+// Adaptive problem system - where a student goes next through the
+// curriculum's problem graph
 
-  // Equivalent Fractions - EXPLORE
-  {
-    id: 'chocolate-explore',
-    lessonId: 'equivalent-fractions',
-    level: 'explore',
-    visualPrompt: '🍫',
-    spokenPrompt: 'Look at this chocolate bar! Can you show me the same amount of chocolate in different ways?',
-    manipulatives: ['fraction-bar', 'area-model'],
-    successCriteria: ['shows same amount different ways'],
-    nextSteps: {
-      onSuccess: 'chocolate-practice',
-      onStruggle: 'chocolate-explore-guided'
-    }
-  },
+// Which way getNextProblem went. 'remediation' is a detour to work on a
+// misconception Pi flagged on the problem just left.
+export type ProblemBranch = 'success' | 'struggle' | 'remediation';
 
-  // Number Line - Visual First
-  {
-    id: 'jump-explore',
-    lessonId: 'fractions-number-line',
-    level: 'explore',
-    visualPrompt: '🐸 ___________',
-    spokenPrompt: 'A frog is jumping! Each jump is the same size. Where will the frog land after different numbers of jumps?',
-    manipulatives: ['visual-number-line', 'pencil'],
-    successCriteria: ['shows equal jumps', 'marks landing spots'],
-    nextSteps: {
-      onSuccess: 'jump-practice',
-      onStruggle: 'jump-explore-guided'
-    }
-  },
+export interface NextProblem {
+  problem: VisualProblem;
+  branch: ProblemBranch;
+  misconceptionId?: string;
+}
 
-  // Comparing - Visual Only
-  {
-    id: 'water-explore',
-    lessonId: 'comparing-fractions',
-    level: 'explore',
-    visualPrompt: '🥤🥤',
-    spokenPrompt: 'Two cups have different amounts of water. Which has more? Show me how you know!',
-    manipulatives: ['fraction-bar', 'pencil'],
-    successCriteria: ['visual comparison', 'explains which is more'],
-    nextSteps: {
-      onSuccess: 'water-practice',
-      onStruggle: 'water-explore-guided'
-    }
-  }
-];
+// A problem in the same lesson to work on `misconceptionId`, other than the
+// one just left: the catalog's suggestion if it's in the lesson, else the
+// first tagged one. Detours never leave the lesson - the student would follow
+// the other lesson's nextSteps and not come back.
+function findRemediationProblem(misconceptionId: string, current: VisualProblem): VisualProblem | undefined {
+  const suggestedId = getMisconceptionEntry(misconceptionId)?.remediationProblemId;
+  const candidates = curriculum.problems.filter(p =>
+    p.id !== current.id &&
+    p.lessonId === current.lessonId &&
+    (p.remediates?.includes(misconceptionId) || p.id === suggestedId)
+  );
+  return candidates.find(p => p.id === suggestedId) ?? candidates[0];
+}
 
-// Function to get next problem based on performance
+// Function to get next problem based on performance. Misconceptions Pi
+// flagged on the current problem (most recent first) send the student to a
+// problem in this lesson that targets one, unless they just solved a problem
+// aimed at it.
 export function getNextProblem(
   currentProblemId: string,
   wasSuccessful: boolean,
-  attemptCount: number
-): VisualProblem | undefined {
-  const currentProblem = adaptiveProblems.find(p => p.id === currentProblemId);
+  attemptCount: number,
+  flaggedMisconceptions: string[] = []
+): NextProblem | undefined {
+  const currentProblem = getProblem(currentProblemId);
   if (!currentProblem) return undefined;
 
+  const unresolved = flaggedMisconceptions.filter(id =>
+    !(wasSuccessful && currentProblem.remediates?.includes(id))
+  );
+  for (const misconceptionId of unresolved) {
+    const problem = findRemediationProblem(misconceptionId, currentProblem);
+    if (problem) return { problem, branch: 'remediation', misconceptionId };
+  }
+
   // After 3 attempts, always move to struggle path
   if (attemptCount >= 3 && !wasSuccessful) {
     const struggleId = currentProblem.nextSteps.onStruggle;
-    return adaptiveProblems.find(p => p.id === struggleId);
+    const problem = getProblem(struggleId);
+    return problem && { problem, branch: 'struggle' };
   }
 
   const nextId = wasSuccessful 
     ? currentProblem.nextSteps.onSuccess 
     : currentProblem.nextSteps.onStruggle;
-    
-  return adaptiveProblems.find(p => p.id === nextId);
+  const problem = getProblem(nextId);
+  return problem && { problem, branch: wasSuccessful ? 'success' : 'struggle' };
 }
 
-// Get starting problem for a lesson
-export function getStartingProblem(lessonId: string): VisualProblem | undefined {
-  return adaptiveProblems.find(p => p.lessonId === lessonId && p.level === 'explore');
-}
\ No newline at end of file
+const significantWords = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(word => word.length > 2);
+
+// Which of the problem's success criteria the claims (e.g. Pi's
+// "student drew 4 equal parts") cover - a criterion counts when most of its
+// words show up in one claim
+export function matchSuccessCriteria(problem: VisualProblem, claims: string[]) {
+  const claimWords = claims.map(claim => new Set(significantWords(claim)));
+  const met = problem.successCriteria.filter(criterion => {
+    const words = significantWords(criterion);
+    return claimWords.some(claim =>
+      words.filter(word => claim.has(word) || claim.has(word.replace(/s$/, ''))).length >= Math.ceil(words.length * 0.6)
+    );
+  });
+  return { met, unmet: problem.successCriteria.filter(criterion => !met.includes(criterion)) };
+}
@@ -0,0 +1,160 @@
+import { curriculum, loadCurriculum, validateProblemGraph, VisualProblem } from './curriculum';
+import { getNextProblem } from './adaptiveProblems';
+import { misconceptionCatalog } from './misconceptions';
+
+const problem = (
+  id: string,
+  level: VisualProblem['level'],
+  onSuccess: string,
+  onStruggle: string
+): VisualProblem => ({
+  id,
+  lessonId: 'lesson',
+  level,
+  visualPrompt: '',
+  spokenPrompt: '',
+  manipulatives: [],
+  successCriteria: [],
+  nextSteps: { onSuccess, onStruggle }
+});
+
+// explore → practice → extend, each with a struggle path
+const completeLesson = () => [
+  problem('explore', 'explore', 'practice', 'explore-guided'),
+  problem('explore-guided', 'explore', 'practice', 'explore-guided'),
+  problem('practice', 'practice', 'extend', 'explore-guided'),
+  problem('extend', 'extend', 'extend', 'practice')
+];
+
+const messages = (problems: VisualProblem[], lessonIds = ['lesson']) =>
+  validateProblemGraph(problems, lessonIds, []).map(issue => `${issue.path}: ${issue.message}`);
+
+describe('curriculum', () => {
+  it('has a valid problem graph for every lesson', () => {
+    expect(validateProblemGraph()).toEqual([]);
+  });
+
+  it('always has a next problem, on either branch', () => {
+    curriculum.problems.forEach(p => {
+      expect(getNextProblem(p.id, true, 0)).toBeDefined();
+      expect(getNextProblem(p.id, false, 0)).toBeDefined();
+      expect(getNextProblem(p.id, false, 3)).toBeDefined();
+    });
+  });
+
+  it('keeps remediation detours inside the lesson', () => {
+    curriculum.problems.forEach(p => {
+      misconceptionCatalog.forEach(entry => {
+        const next = getNextProblem(p.id, false, 0, [entry.id]);
+        expect(next?.problem.lessonId).toBe(p.lessonId);
+      });
+    });
+    expect(getNextProblem('pizza-explore', false, 0, ['counting_not_measuring'])).toMatchObject({
+      branch: 'remediation',
+      problem: { id: 'pizza-practice-support' }
+    });
+  });
+});
+
+describe('loadCurriculum', () => {
+  it('links problems and lessons back to where they are nested', () => {
+    const loaded = loadCurriculum([{
+      id: 'unit',
+      title: 'Unit',
+      grade: 'Grade 3',
+      unit: 'Unit 1',
+      lessons: [{
+        id: 'lesson',
+        title: 'Lesson',
+        subtitle: '',
+        image: '',
+        active: true,
+        description: '',
+        concepts: [],
+        problems: completeLesson().map(({ lessonId, ...source }) => source)
+      }]
+    }]);
+    expect(loaded.lessons.map(lesson => lesson.unitId)).toEqual(['unit']);
+    expect(loaded.problems.map(p => `${p.lessonId}/${p.id}`)).toEqual([
+      'lesson/explore', 'lesson/explore-guided', 'lesson/practice', 'lesson/extend'
+    ]);
+    expect(loaded.units[0].lessons[0].problems).toEqual(loaded.problems);
+  });
+});
+
+describe('validateProblemGraph', () => {
+  it('accepts a complete lesson', () => {
+    expect(messages(completeLesson())).toEqual([]);
+  });
+
+  it('reports links to missing problems', () => {
+    const problems = completeLesson();
+    problems[2].nextSteps.onStruggle = 'practice-support';
+    expect(messages(problems)).toEqual(['practice.nextSteps.onStruggle: no problem "practice-support"']);
+  });
+
+  it('reports problems not reachable from the lesson start', () => {
+    const problems = [...completeLesson(), problem('orphan', 'practice', 'extend', 'explore')];
+    expect(messages(problems)).toEqual(['orphan: not reachable from "explore"']);
+  });
+
+  it('reports lessons whose success path skips a level', () => {
+    const problems = completeLesson();
+    problems[0].nextSteps.onSuccess = 'extend';
+    problems[1].nextSteps.onSuccess = 'extend';
+    expect(messages(problems)).toEqual(['lesson: solving from "explore" never reaches practice']);
+  });
+
+  it('reports solving that drops a level and struggling that climbs one', () => {
+    const problems = completeLesson();
+    problems[2].nextSteps.onSuccess = 'explore';
+    problems[1].nextSteps.onStruggle = 'practice';
+    expect(messages(problems)).toEqual([
+      'explore-guided.nextSteps.onStruggle: struggling climbs from explore to practice',
+      'practice.nextSteps.onSuccess: solving drops from practice to explore',
+      'extend: not reachable from "explore"',
+      'lesson: solving from "explore" never reaches extend'
+    ]);
+  });
+
+  it('only lets extend problems move on to the next lesson start', () => {
+    const next = completeLesson().map(p => ({ ...p, id: `next-${p.id}`, lessonId: 'next' }));
+    next.forEach(p => {
+      p.nextSteps = { onSuccess: `next-${p.nextSteps.onSuccess}`, onStruggle: `next-${p.nextSteps.onStruggle}` };
+    });
+    const problems = [...completeLesson(), ...next];
+    problems[3].nextSteps.onSuccess = 'next-explore';
+    expect(messages(problems, ['lesson', 'next'])).toEqual([]);
+
+    problems[3].nextSteps.onSuccess = 'next-practice';
+    problems[2].nextSteps.onStruggle = 'next-explore';
+    expect(messages(problems, ['lesson', 'next'])).toEqual([
+      'practice.nextSteps.onStruggle: struggling leaves the lesson for "next-explore"',
+      'extend.nextSteps.onSuccess: only extend problems move on, and only to a lesson\'s starting problem (got "next-practice")'
+    ]);
+  });
+
+  it('reports lessons without problems and remediation links that do not resolve', () => {
+    const problems = completeLesson();
+    problems[1].remediates = ['made_up'];
+    const catalog = [{ id: 'real', label: '', description: '', lessonIds: [], concepts: [], remediationProblemId: 'gone' }];
+    expect(validateProblemGraph(problems, ['lesson', 'empty'], catalog)).toEqual([
+      { path: 'explore-guided.remediates[0]', message: 'no misconception "made_up"' },
+      { path: 'real.remediationProblemId', message: 'no problem "gone"' },
+      { path: 'empty', message: 'no explore problem to start the lesson' }
+    ]);
+  });
+
+  it('reports misconceptions with no remediating problem in one of their lessons', () => {
+    const problems = completeLesson();
+    problems[1].remediates = ['tagged'];
+    const entry = { label: '', description: '', concepts: [] };
+    const catalog = [
+      { ...entry, id: 'tagged', lessonIds: ['lesson'] },
+      { ...entry, id: 'untagged', lessonIds: ['lesson'], remediationProblemId: 'explore' }
+    ];
+    expect(validateProblemGraph(problems, ['lesson'], catalog)).toEqual([
+      { path: 'untagged.lessonIds[0]', message: 'no problem in "lesson" remediates it' }
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { misconceptionCatalog, MisconceptionEntry } from './misconceptions';
+import type { ValidationIssue } from '../lib/toolRegistry';
+import { fractionsUnit } from './fractionsUnit';
+
+// Curriculum: units → lessons → problems. The content is written nested
+// (see fractionsUnit) and loadCurriculum fills in the back-references and
+// flat lists everything else looks things up in.
+
+// Adaptive problem - visual first, no math language until mastery
+export interface VisualProblem {
+  id: string;
+  lessonId: string;
+  level: 'explore' | 'practice' | 'extend'; // Not "easy/medium/hard"
+  visualPrompt: string; // What they see
+  spokenPrompt: string; // What Pi says
+  manipulatives: string[]; // Suggested tools
+  successCriteria: string[]; // What indicates understanding
+  hints?: string[]; // Nudges Pi can offer, in the same visual language
+  nextSteps: {
+    onSuccess: string;
+    onStruggle: string;
+  };
+  remediates?: string[]; // Misconception catalog ids this problem targets
+}
+
+export interface Lesson {
+  id: string;
+  unitId: string;
+  title: string;
+  subtitle: string;
+  image: string; // Emoji for the homepage card
+  active: boolean; // Open on the homepage, or "coming soon"
+  description: string;
+  concepts: string[]; // Same names as mark_reasoning_step concepts
+  problems: VisualProblem[]; // The lesson's starting problem comes first
+}
+
+export interface Unit {
+  id: string;
+  title: string;
+  grade: string;
+  unit: string; // e.g. "Unit 5"
+  lessons: Lesson[];
+}
+
+// As authored - the ids of the containing unit and lesson come from nesting
+export type ProblemSource = Omit<VisualProblem, 'lessonId'>;
+export type LessonSource = Omit<Lesson, 'unitId' | 'problems'> & { problems: ProblemSource[] };
+export type UnitSource = Omit<Unit, 'lessons'> & { lessons: LessonSource[] };
+
+export interface Curriculum {
+  units: Unit[];
+  lessons: Lesson[]; // In order, across units
+  problems: VisualProblem[];
+}
+
+export function loadCurriculum(sources: UnitSource[]): Curriculum {
+  const units = sources.map(({ lessons, ...unit }) => ({
+    ...unit,
+    lessons: lessons.map(({ problems, ...lesson }) => ({
+      ...lesson,
+      unitId: unit.id,
+      problems: problems.map(problem => ({ ...problem, lessonId: lesson.id }))
+    }))
+  }));
+  const lessons = units.flatMap(unit => unit.lessons);
+  return { units, lessons, problems: lessons.flatMap(lesson => lesson.problems) };
+}
+
+export const curriculum = loadCurriculum([fractionsUnit]);
+
+export function getUnit(unitId: string): Unit | undefined {
+  return curriculum.units.find(unit => unit.id === unitId);
+}
+
+export function getLesson(lessonId: string): Lesson | undefined {
+  return curriculum.lessons.find(lesson => lesson.id === lessonId);
+}
+
+export function getProblem(problemId: string): VisualProblem | undefined {
+  return curriculum.problems.find(problem => problem.id === problemId);
+}
+
+// Get starting problem for a lesson
+export function getStartingProblem(lessonId: string): VisualProblem | undefined {
+  return getLesson(lessonId)?.problems.find(p => p.level === 'explore');
+}
+
+const LEVELS: VisualProblem['level'][] = ['explore', 'practice', 'extend'];
+
+// Checks the problem graph hangs together: every link names a real problem,
+// every problem can be reached from its lesson's starting problem, solving
+// walks explore → practice → extend without dropping a level, struggling
+// never climbs one, and only extend problems hand over to another lesson.
+// Remediation links in both directions, and the catalog's lessons, must
+// resolve too, and every lesson a misconception belongs to needs a problem
+// that remediates it.
+export function validateProblemGraph(
+  problems: VisualProblem[] = curriculum.problems,
+  lessonIds: string[] = curriculum.lessons.map(lesson => lesson.id),
+  catalog: MisconceptionEntry[] = misconceptionCatalog
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const byId = new Map<string, VisualProblem>();
+  problems.forEach(problem => {
+    if (byId.has(problem.id)) issues.push({ path: problem.id, message: 'duplicate problem id' });
+    else byId.set(problem.id, problem);
+    if (!lessonIds.includes(problem.lessonId)) {
+      issues.push({ path: `${problem.id}.lessonId`, message: `unknown lesson "${problem.lessonId}"` });
+    }
+  });
+
+  // Same rule as getStartingProblem
+  const startOf = (lessonId: string) => problems.find(p => p.lessonId === lessonId && p.level === 'explore');
+  const rank = (problem: VisualProblem) => LEVELS.indexOf(problem.level);
+
+  problems.forEach(problem => {
+    (['onSuccess', 'onStruggle'] as const).forEach(branch => {
+      const path = `${problem.id}.nextSteps.${branch}`;
+      const target = byId.get(problem.nextSteps[branch]);
+      if (!target) {
+        issues.push({ path, message: `no problem "${problem.nextSteps[branch]}"` });
+      } else if (target.lessonId !== problem.lessonId) {
+        if (branch === 'onStruggle') {
+          issues.push({ path, message: `struggling leaves the lesson for "${target.id}"` });
+        } else if (problem.level !== 'extend' || startOf(target.lessonId) !== target) {
+          issues.push({ path, message: `only extend problems move on, and only to a lesson's starting problem (got "${target.id}")` });
+        }
+      } else if (branch === 'onSuccess' && rank(target) < rank(problem)) {
+        issues.push({ path, message: `solving drops from ${problem.level} to ${target.level}` });
+      } else if (branch === 'onStruggle' && rank(target) > rank(problem)) {
+        issues.push({ path, message: `struggling climbs from ${problem.level} to ${target.level}` });
+      }
+    });
+
+    problem.remediates?.forEach((id, i) => {
+      if (!catalog.some(entry => entry.id === id)) {
+        issues.push({ path: `${problem.id}.remediates[${i}]`, message: `no misconception "${id}"` });
+      }
+    });
+  });
+
+  catalog.forEach(entry => {
+    if (entry.remediationProblemId && !byId.has(entry.remediationProblemId)) {
+      issues.push({ path: `${entry.id}.remediationProblemId`, message: `no problem "${entry.remediationProblemId}"` });
+    }
+    entry.lessonIds.forEach((lessonId, i) => {
+      if (!lessonIds.includes(lessonId)) {
+        issues.push({ path: `${entry.id}.lessonIds[${i}]`, message: `unknown lesson "${lessonId}"` });
+      } else if (!problems.some(p => p.lessonId === lessonId && p.remediates?.includes(entry.id))) {
+        // getNextProblem only detours within the lesson
+        issues.push({ path: `${entry.id}.lessonIds[${i}]`, message: `no problem in "${lessonId}" remediates it` });
+      }
+    });
+  });
+
+  lessonIds.forEach(lessonId => {
+    const start = startOf(lessonId);
+    if (!start) {
+      issues.push({ path: lessonId, message: 'no explore problem to start the lesson' });
+      return;
+    }
+
+    // Everything in the lesson, down either branch
+    const reached = new Set<string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const problem = queue.pop()!;
+      if (reached.has(problem.id)) continue;
+      reached.add(problem.id);
+      [problem.nextSteps.onSuccess, problem.nextSteps.onStruggle].forEach(id => {
+        const next = byId.get(id);
+        if (next && next.lessonId === lessonId) queue.push(next);
+      });
+    }
+    problems
+      .filter(p => p.lessonId === lessonId && !reached.has(p.id))
+      .forEach(p => issues.push({ path: p.id, message: `not reachable from "${start.id}"` }));
+
+    // Solving every problem from the start visits all three levels
+    const walked = new Set<string>();
+    const levels = new Set<string>();
+    let problem: VisualProblem | undefined = start;
+    while (problem && problem.lessonId === lessonId && !walked.has(problem.id)) {
+      walked.add(problem.id);
+      levels.add(problem.level);
+      problem = byId.get(problem.nextSteps.onSuccess);
+    }
+    const missing = LEVELS.filter(level => !levels.has(level));
+    if (missing.length > 0) {
+      issues.push({ path: lessonId, message: `solving from "${start.id}" never reaches ${missing.join(' or ')}` });
+    }
+  });
+
+  return issues;
+}
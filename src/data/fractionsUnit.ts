@@ -0,0 +1,606 @@
+import type { UnitSource } from './curriculum';
+
+// Grade 3 fractions, in the order the homepage offers the lessons. Each
+// lesson runs explore → practice → extend on success, with a gentler problem
+// beside each level for struggling, and its extend problems hand over to the
+// next lesson's starting problem. Concepts use mark_reasoning_step's names.
+export const fractionsUnit: UnitSource = {
+  id: 'fractions',
+  title: 'Fractions',
+  grade: 'Grade 3',
+  unit: 'Unit 5',
+  lessons: [
+    {
+      id: 'intro-fractions',
+      title: 'Parts & Wholes',
+      subtitle: 'Share pizza like a pro! 🍕',
+      image: '🍕',
+      active: true,
+      description: 'Pizza time! Learn by playing with yummy treats!',
+      concepts: ['equal parts', 'fair sharing', 'parts of a whole'],
+      problems: [
+        // EXPLORE level - visual first
+        {
+          id: 'pizza-explore',
+          level: 'explore',
+          visualPrompt: '🍕 🍕',
+          spokenPrompt: 'Look at these pizzas! If you wanted to share them fairly with your friends, how would you do it? Show me!',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['draws equal parts', 'shows fair sharing'],
+          hints: [
+            'Draw the pizzas and show how you would cut them',
+            'Think about how many friends need a piece',
+            'Are all the pieces the same size?'
+          ],
+          nextSteps: {
+            onSuccess: 'pizza-practice',
+            onStruggle: 'pizza-explore-guided'
+          },
+          remediates: ['whole_unclear']
+        },
+        {
+          id: 'pizza-explore-guided',
+          level: 'explore',
+          visualPrompt: '🍕 👦👧👦👧',
+          spokenPrompt: 'Here\'s one pizza and four friends. Can you draw lines to show how each friend gets the same amount?',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['creates 4 equal parts'],
+          nextSteps: {
+            onSuccess: 'pizza-practice',
+            onStruggle: 'pizza-explore-guided'
+          },
+          remediates: ['unequal_parts', 'whole_unclear']
+        },
+        // PRACTICE level - building understanding
+        {
+          id: 'pizza-practice',
+          level: 'practice',
+          visualPrompt: '🍕🍕🍕 👦👦👦',
+          spokenPrompt: 'Now we have 3 pizzas and 3 friends. Each friend ate some pizza. Can you show me different ways they could have eaten?',
+          manipulatives: ['fraction-circles', 'fraction-bar'],
+          successCriteria: ['shows multiple solutions', 'demonstrates part-whole understanding'],
+          hints: [
+            'Count all the pieces in one pizza',
+            'Count how many pieces one friend ate',
+            'What about the pieces nobody ate?'
+          ],
+          nextSteps: {
+            onSuccess: 'pizza-extend',
+            onStruggle: 'pizza-practice-support'
+          },
+          remediates: ['adds_denominators']
+        },
+        {
+          id: 'pizza-practice-support',
+          level: 'practice',
+          visualPrompt: '🍕 👦👧',
+          spokenPrompt: 'Let\'s try one pizza and two friends. Can you cut it so it\'s fair? Now one friend cuts their piece into 3 little pieces. Do they have more pizza than their friend now? Show me!',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['creates 2 equal parts', 'explains cutting does not change the amount'],
+          nextSteps: {
+            onSuccess: 'pizza-extend',
+            onStruggle: 'pizza-explore-guided'
+          },
+          remediates: ['unequal_parts', 'counting_not_measuring']
+        },
+        // EXTEND level - deeper thinking
+        {
+          id: 'pizza-extend',
+          level: 'extend',
+          visualPrompt: '🍕🍕 + 🍰',
+          spokenPrompt: 'At the party, there were 2 pizzas and 1 cake. More friends came! How would you share everything fairly? There\'s no right answer - show me your thinking!',
+          manipulatives: ['fraction-circles', 'fraction-bar', 'pencil'],
+          successCriteria: ['creative problem solving', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'chocolate-explore',
+            onStruggle: 'pizza-extend-discuss'
+          }
+        },
+        {
+          id: 'pizza-extend-discuss',
+          level: 'extend',
+          visualPrompt: '🍕 👦👧 + 👦',
+          spokenPrompt: 'Let\'s think about the party together. If one more friend comes to share the pizza, what happens to everyone\'s piece? Does it get bigger or smaller? Tell me why!',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['explains more friends means smaller pieces', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'chocolate-explore',
+            onStruggle: 'pizza-practice-support'
+          },
+          remediates: ['bigger_denominator_bigger_piece']
+        }
+      ]
+    },
+    {
+      id: 'equivalent-fractions',
+      title: 'Same Amount, Different Ways',
+      subtitle: 'Cool magic tricks! ✨',
+      image: '🍰',
+      active: false,
+      description: '1/2 = 2/4? Mind = blown! 🤯',
+      concepts: ['equivalent fractions', 'same size different pieces'],
+      problems: [
+        // EXPLORE
+        {
+          id: 'chocolate-explore',
+          level: 'explore',
+          visualPrompt: '🍫',
+          spokenPrompt: 'Look at this chocolate bar! Can you show me the same amount of chocolate in different ways?',
+          manipulatives: ['fraction-bar', 'area-model'],
+          successCriteria: ['shows same amount different ways'],
+          hints: [
+            'Start with the whole bar',
+            'Color some of it with one color',
+            'Can you cover the same space with smaller pieces?'
+          ],
+          nextSteps: {
+            onSuccess: 'chocolate-practice',
+            onStruggle: 'chocolate-explore-guided'
+          },
+          remediates: ['equivalent_not_equal']
+        },
+        {
+          id: 'chocolate-explore-guided',
+          level: 'explore',
+          visualPrompt: '🍫 🍫',
+          spokenPrompt: 'These two chocolate bars are exactly the same size. Break one into 2 big pieces and the other into 4 small pieces. Which small pieces make the same amount as one big piece?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['matches 2 small pieces to 1 big piece', 'shows same amount different pieces'],
+          nextSteps: {
+            onSuccess: 'chocolate-practice',
+            onStruggle: 'chocolate-explore-guided'
+          },
+          remediates: ['equivalent_not_equal']
+        },
+        // PRACTICE
+        {
+          id: 'chocolate-practice',
+          level: 'practice',
+          visualPrompt: '🍫🍫🍫 👦👧👦',
+          spokenPrompt: 'Three friends each got the same amount of chocolate, but their bars were broken into different numbers of pieces. Can you show me how that could happen?',
+          manipulatives: ['fraction-bar', 'area-model'],
+          successCriteria: ['shows equal amounts with different pieces', 'explains why the amounts are the same'],
+          nextSteps: {
+            onSuccess: 'chocolate-extend',
+            onStruggle: 'chocolate-practice-support'
+          }
+        },
+        {
+          id: 'chocolate-practice-support',
+          level: 'practice',
+          visualPrompt: '🍫 ✂️',
+          spokenPrompt: 'Let\'s cut one chocolate bar in half. Now cut each half in half again. How many pieces do you have now? Is there still the same amount of chocolate?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['splits pieces into smaller equal pieces', 'explains the amount stays the same'],
+          hints: [
+            'The first cut makes 2 equal pieces',
+            'Cutting again makes more pieces',
+            'Did the amount of chocolate change?'
+          ],
+          nextSteps: {
+            onSuccess: 'chocolate-extend',
+            onStruggle: 'chocolate-explore-guided'
+          },
+          remediates: ['equivalent_not_equal']
+        },
+        // EXTEND
+        {
+          id: 'chocolate-extend',
+          level: 'extend',
+          visualPrompt: '🍫 🔍',
+          spokenPrompt: 'How many different ways can you find to show half of a chocolate bar? Find as many as you can - do you notice a pattern?',
+          manipulatives: ['fraction-bar', 'area-model', 'pencil'],
+          successCriteria: ['finds several ways to show half', 'explains a pattern'],
+          nextSteps: {
+            onSuccess: 'water-explore',
+            onStruggle: 'chocolate-extend-discuss'
+          }
+        },
+        {
+          id: 'chocolate-extend-discuss',
+          level: 'extend',
+          visualPrompt: '🍫 🍫 🤔',
+          spokenPrompt: 'Sam says 2 pieces out of 4 is more chocolate than 1 piece out of 2, because 2 is more than 1. Let\'s look together - what do you think? Can you show Sam?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['explains why the amounts match', 'uses the picture to explain'],
+          nextSteps: {
+            onSuccess: 'water-explore',
+            onStruggle: 'chocolate-practice-support'
+          },
+          remediates: ['equivalent_not_equal']
+        }
+      ]
+    },
+    {
+      id: 'comparing-fractions',
+      title: 'Bigger or Smaller?',
+      subtitle: 'Be a detective! 🕵️',
+      image: '🍪',
+      active: false,
+      description: 'Which piece wins? You decide!',
+      concepts: ['comparing fractions', 'visual comparison', 'same whole'],
+      problems: [
+        // EXPLORE - visual only
+        {
+          id: 'water-explore',
+          level: 'explore',
+          visualPrompt: '🥤🥤',
+          spokenPrompt: 'Two cups have different amounts of water. Which has more? Show me how you know!',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['visual comparison', 'explains which is more'],
+          hints: [
+            'Draw both cups the same size',
+            'Show how high the water goes in each',
+            'Which water line is higher?'
+          ],
+          nextSteps: {
+            onSuccess: 'water-practice',
+            onStruggle: 'water-explore-guided'
+          },
+          remediates: ['counting_not_measuring', 'bigger_denominator_bigger_piece', 'compares_numerators_only', 'different_wholes']
+        },
+        {
+          id: 'water-explore-guided',
+          level: 'explore',
+          visualPrompt: '🥤🥤 📏',
+          spokenPrompt: 'These two cups are exactly the same size. Let\'s color in how full each one is. Which has more water? Does your picture help you tell?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['compares same size wholes', 'explains which is more'],
+          nextSteps: {
+            onSuccess: 'water-practice',
+            onStruggle: 'water-explore-guided'
+          },
+          remediates: ['different_wholes', 'counting_not_measuring']
+        },
+        // PRACTICE
+        {
+          id: 'water-practice',
+          level: 'practice',
+          visualPrompt: '🥤🥤🥤',
+          spokenPrompt: 'Three friends poured juice into the same kind of cup, but not the same amount. Can you line the cups up from least juice to most and show me how you decided?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['orders the amounts', 'explains comparison with a picture'],
+          hints: [
+            'Draw all three cups the same size',
+            'Mark how full each one is',
+            'Which mark is closest to the top?'
+          ],
+          nextSteps: {
+            onSuccess: 'water-extend',
+            onStruggle: 'water-practice-support'
+          }
+        },
+        {
+          id: 'water-practice-support',
+          level: 'practice',
+          visualPrompt: '🍫 🍫',
+          spokenPrompt: 'Two bars are the same size. One is cut into 2 pieces and the other into 8 pieces. Which is bigger - one piece from the first bar or one piece from the second? Draw them to find out!',
+          manipulatives: ['fraction-bar', 'fraction-circles'],
+          successCriteria: ['explains more pieces means smaller pieces', 'compares pieces visually'],
+          nextSteps: {
+            onSuccess: 'water-extend',
+            onStruggle: 'water-explore-guided'
+          },
+          remediates: ['bigger_denominator_bigger_piece']
+        },
+        // EXTEND
+        {
+          id: 'water-extend',
+          level: 'extend',
+          visualPrompt: '🥤 🧃',
+          spokenPrompt: 'Kai has a little cup that\'s half full. Ana has a giant bottle that\'s a third full. Kai says he has more because half is more than a third. What do you think? Show me!',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['considers the size of the whole', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'jump-explore',
+            onStruggle: 'water-extend-discuss'
+          },
+          remediates: ['different_wholes']
+        },
+        {
+          id: 'water-extend-discuss',
+          level: 'extend',
+          visualPrompt: '🥤🥤 💬',
+          spokenPrompt: 'Let\'s talk this one through. Ben colored 3 little pieces of his cup and Zoe colored 2 big pieces of the same size cup. Ben says he has more because 3 is more than 2. Is he right? How could we check?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['compares piece size not just count', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'jump-explore',
+            onStruggle: 'water-practice-support'
+          },
+          remediates: ['compares_numerators_only', 'counting_not_measuring']
+        }
+      ]
+    },
+    {
+      id: 'fractions-number-line',
+      title: 'Finding Your Spot',
+      subtitle: 'Treasure hunt time! 🗺️',
+      image: '📏',
+      active: false,
+      description: 'Every number has its secret hiding spot!',
+      concepts: ['number line', 'equal jumps', 'repeated addition'],
+      problems: [
+        // EXPLORE - visual first
+        {
+          id: 'jump-explore',
+          level: 'explore',
+          visualPrompt: '🐸 ___________',
+          spokenPrompt: 'A frog is jumping! Each jump is the same size. Where will the frog land after different numbers of jumps?',
+          manipulatives: ['visual-number-line', 'pencil'],
+          successCriteria: ['shows equal jumps', 'marks landing spots'],
+          hints: [
+            'Each jump is the same size',
+            'Start where the frog sits, not at the first mark',
+            'Count the jumps as you go'
+          ],
+          nextSteps: {
+            onSuccess: 'jump-practice',
+            onStruggle: 'jump-explore-guided'
+          },
+          remediates: ['counts_tick_marks', 'number_line_starts_at_one']
+        },
+        {
+          id: 'jump-explore-guided',
+          level: 'explore',
+          visualPrompt: '🐸 0 ___________ 🪷',
+          spokenPrompt: 'The frog starts at 0 and wants to reach the lily pad in 4 equal jumps. Can you draw where each jump lands? Put your finger on the frog and hop along with it!',
+          manipulatives: ['visual-number-line', 'pencil'],
+          successCriteria: ['starts at zero', 'makes 4 equal jumps'],
+          nextSteps: {
+            onSuccess: 'jump-practice',
+            onStruggle: 'jump-explore-guided'
+          },
+          remediates: ['number_line_starts_at_one', 'counts_tick_marks']
+        },
+        // PRACTICE
+        {
+          id: 'jump-practice',
+          level: 'practice',
+          visualPrompt: '🐸 🐰 ___________ 🪨',
+          spokenPrompt: 'A frog and a bunny are racing to the same rock. The frog gets there in 3 equal jumps and the bunny in 6. Show me where each one lands! Do they ever land on the same spot?',
+          manipulatives: ['number-line', 'pencil'],
+          successCriteria: ['marks equal jumps for each animal', 'finds matching landing spots'],
+          hints: [
+            'Mark where the rock is first',
+            'Split the path into the frog\'s jumps, then the bunny\'s',
+            'Look for spots where both animals land'
+          ],
+          nextSteps: {
+            onSuccess: 'jump-extend',
+            onStruggle: 'jump-practice-support'
+          }
+        },
+        {
+          id: 'jump-practice-support',
+          level: 'practice',
+          visualPrompt: '🐸 0 |___|___|___| 🪨',
+          spokenPrompt: 'This path is already split into equal spaces. How many jumps does the frog need to get from 0 to the rock? Where is the frog after just 1 jump?',
+          manipulatives: ['visual-number-line', 'pencil'],
+          successCriteria: ['counts spaces not marks', 'marks the landing after one jump'],
+          nextSteps: {
+            onSuccess: 'jump-extend',
+            onStruggle: 'jump-explore-guided'
+          },
+          remediates: ['counts_tick_marks']
+        },
+        // EXTEND
+        {
+          id: 'jump-extend',
+          level: 'extend',
+          visualPrompt: '🐸 ____ 🪨 ____ 🏁',
+          spokenPrompt: 'After some equal jumps, the frog is exactly halfway to the flag. How many jumps might the whole trip take? Is there more than one answer?',
+          manipulatives: ['visual-number-line', 'number-line', 'pencil'],
+          successCriteria: ['reasons about halfway', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'blocks-explore',
+            onStruggle: 'jump-extend-discuss'
+          }
+        },
+        {
+          id: 'jump-extend-discuss',
+          level: 'extend',
+          visualPrompt: '🐸 🤔 |___|___|___|___|',
+          spokenPrompt: 'Let\'s look at the frog\'s path together. Lily says the frog made 3 jumps because it\'s on the third mark - but she started counting at the first mark, not at 0! What do you think happened?',
+          manipulatives: ['visual-number-line', 'pencil'],
+          successCriteria: ['explains starting from zero', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'blocks-explore',
+            onStruggle: 'jump-practice-support'
+          },
+          remediates: ['number_line_starts_at_one', 'counts_tick_marks']
+        }
+      ]
+    },
+    {
+      id: 'unit-fractions',
+      title: 'Special One-Pieces',
+      subtitle: 'Like LEGO blocks! 🧱',
+      image: '🧱',
+      active: false,
+      description: 'The super important building blocks!',
+      concepts: ['unit fractions', 'denominator', 'comparing fractions'],
+      problems: [
+        // EXPLORE
+        {
+          id: 'blocks-explore',
+          level: 'explore',
+          visualPrompt: '🧱🧱🧱🧱',
+          spokenPrompt: 'This tower is made of 4 blocks, all the same size. If you take just one block, how much of the tower do you have? Show me!',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['shows one equal part of the whole', 'explains how many parts make the whole'],
+          nextSteps: {
+            onSuccess: 'blocks-practice',
+            onStruggle: 'blocks-explore-guided'
+          },
+          remediates: ['unequal_parts']
+        },
+        {
+          id: 'blocks-explore-guided',
+          level: 'explore',
+          visualPrompt: '🧱🧱',
+          spokenPrompt: 'Here\'s a tiny tower of 2 blocks that are the same size. Take one block away. How much of the tower is left? How many of those blocks build the whole tower?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['shows one of two equal parts', 'rebuilds the whole from parts'],
+          nextSteps: {
+            onSuccess: 'blocks-practice',
+            onStruggle: 'blocks-explore-guided'
+          },
+          remediates: ['unequal_parts']
+        },
+        // PRACTICE
+        {
+          id: 'blocks-practice',
+          level: 'practice',
+          visualPrompt: '🧱🧱 | 🧱🧱🧱🧱 | 🧱🧱🧱🧱🧱🧱🧱🧱',
+          spokenPrompt: 'These three towers are all the same height, but one has 2 blocks, one has 4 and one has 8. Which tower has the biggest blocks? Show me why!',
+          manipulatives: ['fraction-bar', 'fraction-circles'],
+          successCriteria: ['explains more parts means smaller parts', 'compares one part from each'],
+          nextSteps: {
+            onSuccess: 'blocks-extend',
+            onStruggle: 'blocks-practice-support'
+          },
+          remediates: ['bigger_denominator_bigger_piece']
+        },
+        {
+          id: 'blocks-practice-support',
+          level: 'practice',
+          visualPrompt: '🧱🧱🧱 👆',
+          spokenPrompt: 'Let\'s build a tower from 3 blocks that are the same size. Now pull off one block. How many blocks like that would you need to build the tower again?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['shows one part of three', 'builds the whole from one-pieces'],
+          nextSteps: {
+            onSuccess: 'blocks-extend',
+            onStruggle: 'blocks-explore-guided'
+          }
+        },
+        // EXTEND
+        {
+          id: 'blocks-extend',
+          level: 'extend',
+          visualPrompt: '🧱 + 🧱 + 🧱 = ?',
+          spokenPrompt: 'Every one of your blocks is one piece of a 4-block tower. What different amounts can you build with just those blocks? Can you build more than a whole tower?',
+          manipulatives: ['fraction-bar', 'number-line', 'pencil'],
+          successCriteria: ['builds amounts from one-pieces', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'story-explore',
+            onStruggle: 'blocks-extend-discuss'
+          }
+        },
+        {
+          id: 'blocks-extend-discuss',
+          level: 'extend',
+          visualPrompt: '🧱🧱🧱 💬',
+          spokenPrompt: 'Let\'s build together! One block is one piece of a 4-block tower. How many blocks make 2 pieces? 3 pieces? What about 5 - is that more than a whole tower?',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['counts one-pieces to build amounts', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'story-explore',
+            onStruggle: 'blocks-practice-support'
+          }
+        }
+      ]
+    },
+    {
+      id: 'fraction-word-problems',
+      title: 'Real-Life Stories',
+      subtitle: 'Math everywhere! 🌍',
+      image: '📝',
+      active: false,
+      description: 'Math is hiding all around us!',
+      concepts: ['parts of a whole', 'adding fractions', 'subtracting fractions', 'like denominators'],
+      problems: [
+        // EXPLORE
+        {
+          id: 'story-explore',
+          level: 'explore',
+          visualPrompt: '🎂 👦👧👦 📖',
+          spokenPrompt: 'Here\'s a story: Maya cut her birthday cake into 8 equal slices, and her friends ate 3 of them. Can you draw the story and show me how much cake is left?',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['draws the story', 'shows the part left of the whole'],
+          hints: [
+            'Draw the whole cake first',
+            'Cross out the slices that were eaten',
+            'Count the slices that are left'
+          ],
+          nextSteps: {
+            onSuccess: 'story-practice',
+            onStruggle: 'story-explore-guided'
+          },
+          remediates: ['whole_unclear']
+        },
+        {
+          id: 'story-explore-guided',
+          level: 'explore',
+          visualPrompt: '🥧 ✏️',
+          spokenPrompt: 'Let\'s draw a story together. A pie is cut into 4 equal pieces and Dad eats 1. First draw the whole pie, then show what Dad ate. How much is left?',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['draws the whole first', 'shows pieces eaten and left'],
+          nextSteps: {
+            onSuccess: 'story-practice',
+            onStruggle: 'story-explore-guided'
+          },
+          remediates: ['whole_unclear']
+        },
+        // PRACTICE
+        {
+          id: 'story-practice',
+          level: 'practice',
+          visualPrompt: '🍫 👦 👧',
+          spokenPrompt: 'Leo ate one of the 4 pieces of a chocolate bar, and Zoe ate another piece of the same bar. How much of the bar did they eat together? Show me with a picture!',
+          manipulatives: ['fraction-bar', 'pencil'],
+          successCriteria: ['combines pieces of the same size', 'explains the pieces stay the same size'],
+          hints: [
+            'Draw the chocolate bar in 4 equal pieces',
+            'Color Leo\'s piece, then Zoe\'s',
+            'Are the pieces still the same size?'
+          ],
+          nextSteps: {
+            onSuccess: 'story-extend',
+            onStruggle: 'story-practice-support'
+          },
+          remediates: ['adds_denominators']
+        },
+        {
+          id: 'story-practice-support',
+          level: 'practice',
+          visualPrompt: '🍕 🍽️',
+          spokenPrompt: 'Cut the pizza into 4 equal slices. Put one slice on your plate, then one more. How much of the pizza is on your plate? Did the slices get any smaller?',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['counts same size pieces', 'explains the pieces stay the same size'],
+          nextSteps: {
+            onSuccess: 'story-extend',
+            onStruggle: 'story-explore-guided'
+          },
+          remediates: ['adds_denominators']
+        },
+        // EXTEND - the last lesson, so solving it invites
+        // another story rather than moving on.
+        {
+          id: 'story-extend',
+          level: 'extend',
+          visualPrompt: '📖 ✏️ 🌍',
+          spokenPrompt: 'Now you\'re the author! Make up your own story about sharing something fairly and draw it. Then tell me about the math hiding in your story!',
+          manipulatives: ['fraction-circles', 'fraction-bar', 'pencil'],
+          successCriteria: ['creates a sharing story', 'explains reasoning'],
+          nextSteps: {
+            onSuccess: 'story-extend',
+            onStruggle: 'story-extend-discuss'
+          }
+        },
+        {
+          id: 'story-extend-discuss',
+          level: 'extend',
+          visualPrompt: '📖 💬',
+          spokenPrompt: 'Let\'s make up a story together! What\'s something you like to share, and who will you share it with? Let\'s draw it and find the equal parts.',
+          manipulatives: ['fraction-circles', 'pencil'],
+          successCriteria: ['chooses a whole to share', 'shows equal parts in the story'],
+          nextSteps: {
+            onSuccess: 'story-extend',
+            onStruggle: 'story-practice-support'
+          }
+        }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,114 @@
+// Misconception catalog - what Pi can flag with flag_misconception. Add an
+// entry here and it reaches the tool declaration, the teacher views and
+// progress; nothing else needs to know the list.
+export interface MisconceptionEntry {
+  id: string;
+  label: string; // Short name for teacher views
+  description: string; // What the student is thinking - Pi reads this too
+  lessonIds: string[];
+  concepts: string[]; // Same names as mark_reasoning_step concepts
+  remediationProblemId?: string; // A problem that targets it
+}
+
+export const misconceptionCatalog: MisconceptionEntry[] = [
+  // Parts & wholes
+  {
+    id: 'unequal_parts',
+    label: 'Unequal parts',
+    description: 'Splits a whole into pieces that are not the same size and still calls them halves, thirds or fourths',
+    lessonIds: ['intro-fractions', 'unit-fractions'],
+    concepts: ['equal parts'],
+    remediationProblemId: 'pizza-explore-guided'
+  },
+  {
+    id: 'counting_not_measuring',
+    label: 'Counting, not measuring',
+    description: 'Counts pieces instead of looking at how much of the whole they cover, e.g. thinks 3 small pieces are more than 1 big piece',
+    lessonIds: ['intro-fractions', 'comparing-fractions'],
+    concepts: ['equal parts', 'comparing fractions'],
+    remediationProblemId: 'water-explore'
+  },
+  {
+    id: 'whole_unclear',
+    label: 'Whole unclear',
+    description: 'Loses track of what the whole is, e.g. treats two pizzas as one whole or counts shaded parts out of the wrong total',
+    lessonIds: ['intro-fractions', 'fraction-word-problems'],
+    concepts: ['equal parts', 'denominator'],
+    remediationProblemId: 'pizza-explore'
+  },
+
+  // Equivalent fractions
+  {
+    id: 'equivalent_not_equal',
+    label: 'Equivalent means different',
+    description: 'Does not believe fractions like 1/2 and 2/4 are the same amount because they have different numbers of pieces',
+    lessonIds: ['equivalent-fractions'],
+    concepts: ['equivalent fractions', 'same size different pieces'],
+    remediationProblemId: 'chocolate-explore'
+  },
+
+  // Comparing fractions
+  {
+    id: 'bigger_denominator_bigger_piece',
+    label: 'Bigger denominator, bigger piece',
+    description: 'Thinks more pieces means bigger pieces, e.g. that 1/8 is more than 1/4 because 8 is more than 4',
+    lessonIds: ['comparing-fractions', 'unit-fractions'],
+    concepts: ['comparing fractions', 'denominator'],
+    remediationProblemId: 'water-explore'
+  },
+  {
+    id: 'compares_numerators_only',
+    label: 'Compares numerators only',
+    description: 'Compares only how many pieces are shaded and ignores how big the pieces are',
+    lessonIds: ['comparing-fractions'],
+    concepts: ['comparing fractions', 'numerator'],
+    remediationProblemId: 'water-explore'
+  },
+  {
+    id: 'different_wholes',
+    label: 'Different-sized wholes',
+    description: 'Compares fractions of wholes that are not the same size, e.g. half a small pizza against a third of a big one',
+    lessonIds: ['comparing-fractions'],
+    concepts: ['comparing fractions', 'visual comparison'],
+    remediationProblemId: 'water-explore'
+  },
+
+  // Number lines
+  {
+    id: 'counts_tick_marks',
+    label: 'Counts tick marks',
+    description: 'Counts the tick marks on a number line instead of the equal spaces between them',
+    lessonIds: ['fractions-number-line'],
+    concepts: ['number line'],
+    remediationProblemId: 'jump-explore'
+  },
+  {
+    id: 'number_line_starts_at_one',
+    label: 'Starts at one',
+    description: 'Starts counting jumps on a number line from 1 (or the first tick) instead of from 0',
+    lessonIds: ['fractions-number-line'],
+    concepts: ['number line'],
+    remediationProblemId: 'jump-explore'
+  },
+
+  // Operations
+  {
+    id: 'adds_denominators',
+    label: 'Adds denominators',
+    description: 'Adds the bottom numbers as well as the top when adding fractions, e.g. 1/4 + 1/4 = 2/8',
+    lessonIds: ['fraction-word-problems'],
+    concepts: ['adding fractions', 'like denominators'],
+    remediationProblemId: 'story-practice-support'
+  }
+];
+
+export const MISCONCEPTION_IDS = misconceptionCatalog.map(entry => entry.id);
+
+export function getMisconceptionEntry(id: string): MisconceptionEntry | undefined {
+  return misconceptionCatalog.find(entry => entry.id === id);
+}
+
+// Display name for a flagged type, including ones no longer in the catalog
+export function misconceptionLabel(id: string): string {
+  return getMisconceptionEntry(id)?.label ?? id.replace(/_/g, ' ');
+}
@@ -0,0 +1,16 @@
+import { useEffect, useRef } from 'react';
+import { sessionBus, SessionBusEventOf, SessionBusEventType } from '../lib/sessionBus';
+
+// Subscribe a component to one session event type for as long as it's
+// mounted. The latest handler is always called, so it needn't be memoised.
+export function useSessionEvent<T extends SessionBusEventType>(
+  type: T,
+  handler: (event: SessionBusEventOf<T>) => void
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return sessionBus.on(type, event => handlerRef.current(event));
+  }, [type]);
+}
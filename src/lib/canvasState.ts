@@ -0,0 +1,185 @@
+import { create } from "zustand";
+import { CanvasManipulative, useManipulativeStore } from './manipulativeStore';
+
+// Matches the canvas size UnifiedCanvas gives EnhancedCanvas
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Just the parts of EnhancedCanvas' strokes and text we summarise
+interface StrokeInput {
+  points: Point[];
+  color: string;
+  tool: string;
+}
+
+interface TextInput {
+  x: number;
+  y: number;
+  text: string;
+}
+
+export interface InkBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface StrokeSummary {
+  strokeCount: number;
+  eraseCount: number;
+  colors: string[];
+  texts: string[];
+  bounds: InkBounds | null;
+}
+
+export interface ManipulativeSummary {
+  id: string;
+  type: CanvasManipulative['type'];
+  placedBy: CanvasManipulative['placedBy'];
+  x: number;
+  y: number;
+  state: any;
+}
+
+export interface CanvasState {
+  manipulatives: ManipulativeSummary[];
+  strokes: StrokeSummary;
+}
+
+const emptySummary: StrokeSummary = {
+  strokeCount: 0,
+  eraseCount: 0,
+  colors: [],
+  texts: [],
+  bounds: null
+};
+
+export function summarizeStrokes(strokes: StrokeInput[], texts: TextInput[]): StrokeSummary {
+  const drawn = strokes.filter(s => s.tool !== 'eraser');
+  const points: Point[] = [
+    ...drawn.flatMap(s => s.points),
+    ...texts.map(t => ({ x: t.x, y: t.y }))
+  ];
+
+  // One pass rather than Math.min(...points) - a long session has more
+  // points than a call can take arguments
+  let bounds: InkBounds | null = null;
+  if (points.length > 0) {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const p of points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+    bounds = {
+      x: Math.round(minX),
+      y: Math.round(minY),
+      width: Math.round(maxX - minX),
+      height: Math.round(maxY - minY)
+    };
+  }
+
+  return {
+    strokeCount: drawn.length,
+    eraseCount: strokes.length - drawn.length,
+    colors: Array.from(new Set(drawn.map(s => s.color))),
+    texts: texts.map(t => t.text),
+    bounds
+  };
+}
+
+interface StrokeSummaryState {
+  summary: StrokeSummary;
+  setSummary: (summary: StrokeSummary) => void;
+}
+
+// Kept up to date by EnhancedCanvas whenever the student draws, erases or writes
+export const useStrokeSummaryStore = create<StrokeSummaryState>((set) => ({
+  summary: emptySummary,
+  setSummary: (summary) => set({ summary }),
+}));
+
+export function getCanvasState(): CanvasState {
+  return {
+    manipulatives: useManipulativeStore.getState().manipulatives.map(m => ({
+      id: m.id,
+      type: m.type,
+      placedBy: m.placedBy,
+      x: Math.round(m.x),
+      y: Math.round(m.y),
+      state: m.data
+    })),
+    strokes: useStrokeSummaryStore.getState().summary
+  };
+}
+
+// "top left", "center", ... - easier for Pi to talk about than pixels
+const regionOf = (x: number, y: number) => {
+  const col = x < CANVAS_WIDTH / 3 ? 'left' : x < (CANVAS_WIDTH * 2) / 3 ? 'middle' : 'right';
+  const row = y < CANVAS_HEIGHT / 3 ? 'top' : y < (CANVAS_HEIGHT * 2) / 3 ? 'middle' : 'bottom';
+  return row === 'middle' && col === 'middle' ? 'center' : `${row} ${col}`;
+};
+
+const describeManipulative = ({ type, state }: ManipulativeSummary) => {
+  switch (type) {
+    case 'fraction-bar':
+      return `fraction bar with ${state.shaded} of ${state.parts} equal parts shaded`;
+    case 'fraction-circles':
+      return `fraction circle with ${state.shaded} of ${state.parts} equal parts shaded`;
+    case 'number-line': {
+      const marks = state.marks.length > 0 ? `, marks at ${state.marks.join(', ')}` : ', no marks';
+      return `number line from ${state.min} to ${state.max}${marks}`;
+    }
+    case 'area-model': {
+      const shaded = (state.selectedCells as boolean[][]).flat().filter(Boolean).length;
+      return `area model ${state.rows} rows x ${state.cols} columns with ${shaded} of ${state.rows * state.cols} cells shaded`;
+    }
+    case 'array-grid':
+      return `array of ${state.rows} rows x ${state.cols} columns${state.showGrouping ? ' (grouping shown)' : ''}`;
+    case 'visual-number-line': {
+      const positions = (state.markers as { position: number }[]).map(m => m.position);
+      const markers = positions.length > 0 ? `, markers at ${positions.join(', ')}` : ', no markers';
+      return `number line from 0 to ${state.length}${markers}`;
+    }
+  }
+};
+
+// Compact, plain-text version of the canvas for Pi, so it doesn't have to
+// read exact values like "3 of 4 parts shaded" off the JPEG
+export function describeCanvasState(state: CanvasState = getCanvasState()): string {
+  const lines: string[] = [];
+
+  if (state.manipulatives.length === 0) {
+    lines.push('Manipulatives: none');
+  } else {
+    lines.push('Manipulatives:');
+    state.manipulatives.forEach(m => {
+      const owner = m.placedBy === 'pi' ? `set up by Pi, id ${m.id}` : `id ${m.id}`;
+      lines.push(`- ${describeManipulative(m)} (${regionOf(m.x, m.y)}; ${owner})`);
+    });
+  }
+
+  const { strokeCount, eraseCount, texts, bounds } = state.strokes;
+  if (strokeCount === 0 && texts.length === 0) {
+    lines.push('Drawing: nothing drawn yet');
+  } else {
+    const where = bounds ? `, mostly in the ${regionOf(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2)}` : '';
+    const erased = eraseCount > 0 ? `, ${eraseCount} erased` : '';
+    lines.push(`Drawing: ${strokeCount} pencil stroke${strokeCount === 1 ? '' : 's'}${erased}${where}`);
+    if (texts.length > 0) {
+      lines.push(`Written text: ${texts.map(t => `"${t}"`).join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -26,11 +26,17 @@ import {
   LiveServerToolCallCancellation,
   Part,
   Session,
+  Transcription,
 } from "@google/genai";
 
 import { EventEmitter } from "eventemitter3";
 import { difference } from "lodash";
-import { LiveClientOptions, StreamingLog } from "../types";
+import {
+  LiveClientOptions,
+  StreamingLog,
+  TranscriptSegment,
+  TranscriptSpeaker,
+} from "../types";
 import { base64ToArrayBuffer } from "./utils";
 
 /**
@@ -62,6 +68,8 @@ export interface LiveClientEventTypes {
   ) => void;
   // Emitted when the current turn is complete
   turncomplete: () => void;
+  // Emitted for each input (student) or output (Pi) transcription fragment
+  transcript: (segment: TranscriptSegment) => void;
 }
 
 /**
@@ -210,6 +218,10 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     // or contentUpdate { end_of_turn: true }
     if (message.serverContent) {
       const { serverContent } = message;
+      // transcriptions can ride along with any other server content
+      this.emitTranscript("student", serverContent.inputTranscription);
+      this.emitTranscript("pi", serverContent.outputTranscription);
+
       if ("interrupted" in serverContent) {
         this.log("server.content", "interrupted");
         this.emit("interrupted");
@@ -255,6 +267,23 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     }
   }
 
+  protected emitTranscript(
+    speaker: TranscriptSpeaker,
+    transcription?: Transcription
+  ) {
+    if (!transcription?.text) {
+      return;
+    }
+    const segment: TranscriptSegment = {
+      speaker,
+      text: transcription.text,
+      finished: !!transcription.finished,
+      timestamp: Date.now(),
+    };
+    this.log(`server.transcript`, `${speaker}: ${segment.text}`);
+    this.emit("transcript", segment);
+  }
+
   /**
    * send realtimeInput, this is base64 chunks of "audio/pcm" and/or "image/jpg"
    */
@@ -0,0 +1,203 @@
+import { create } from "zustand";
+import { sessionBus } from './sessionBus';
+
+export type ManipulativeType =
+  | 'fraction-bar'
+  | 'number-line'
+  | 'area-model'
+  | 'array-grid'
+  | 'fraction-circles'
+  | 'visual-number-line';
+
+export const MANIPULATIVE_TYPES: ManipulativeType[] = [
+  'fraction-bar',
+  'number-line',
+  'area-model',
+  'array-grid',
+  'fraction-circles',
+  'visual-number-line'
+];
+
+export type ManipulativeSource = 'student' | 'pi';
+
+// A manipulative placed on the UnifiedCanvas
+export interface CanvasManipulative {
+  id: string;
+  type: ManipulativeType;
+  x: number;
+  y: number;
+  data: any;
+  placedBy: ManipulativeSource;
+}
+
+// One change to a manipulative's values, as reported to the session
+export interface ManipulativeChange {
+  id: string;
+  type: ManipulativeType;
+  placedBy: ManipulativeSource;
+  source: ManipulativeSource;
+  previousData: any;
+  data: any;
+}
+
+// Loose, type-agnostic settings Pi (or a hint) can ask for; each type only
+// picks the ones that make sense for it
+export interface ManipulativeSettings {
+  parts?: number;
+  shaded?: number;
+  rows?: number;
+  cols?: number;
+  min?: number;
+  max?: number;
+  marks?: number[];
+  length?: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.round(value)));
+
+// First `count` cells shaded, filling row by row
+const shadeCells = (rows: number, cols: number, count: number) =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => r * cols + c < count)
+  );
+
+export function defaultManipulativeData(type: ManipulativeType): any {
+  switch (type) {
+    case 'fraction-bar':
+    case 'fraction-circles':
+      return { parts: 4, shaded: 1 };
+    case 'number-line':
+      return { min: 0, max: 10, marks: [] };
+    case 'area-model':
+      return { rows: 3, cols: 4, selectedCells: shadeCells(3, 4, 0) };
+    case 'array-grid':
+      return { rows: 3, cols: 4, showGrouping: false };
+    case 'visual-number-line':
+      return { length: 10, markers: [] };
+  }
+}
+
+// Apply settings on top of existing data, keeping it within what each
+// manipulative component can render
+export function buildManipulativeData(
+  type: ManipulativeType,
+  settings: ManipulativeSettings,
+  previous: any = defaultManipulativeData(type)
+): any {
+  switch (type) {
+    case 'fraction-bar':
+    case 'fraction-circles': {
+      const parts = clamp(settings.parts ?? previous.parts, 1, 12);
+      const shaded = clamp(settings.shaded ?? previous.shaded, 0, parts);
+      return { parts, shaded };
+    }
+    case 'number-line': {
+      const min = settings.min ?? previous.min;
+      const max = Math.max(min + 1, settings.max ?? previous.max);
+      const marks = (settings.marks ?? previous.marks).filter((m: number) => m >= min && m <= max);
+      return { min, max, marks };
+    }
+    case 'area-model': {
+      const rows = clamp(settings.rows ?? previous.rows, 1, 10);
+      const cols = clamp(settings.cols ?? previous.cols, 1, 10);
+      const previousShaded = (previous.selectedCells as boolean[][]).flat().filter(Boolean).length;
+      const shaded = clamp(settings.shaded ?? previousShaded, 0, rows * cols);
+      return { rows, cols, selectedCells: shadeCells(rows, cols, shaded) };
+    }
+    case 'array-grid':
+      return {
+        ...previous,
+        rows: clamp(settings.rows ?? previous.rows, 1, 10),
+        cols: clamp(settings.cols ?? previous.cols, 1, 10)
+      };
+    case 'visual-number-line': {
+      const length = clamp(settings.length ?? previous.length, 1, 20);
+      const markers = settings.marks
+        ? settings.marks.map(position => ({ position }))
+        : previous.markers;
+      return {
+        length,
+        markers: markers.filter((m: { position: number }) => m.position >= 0 && m.position <= length)
+      };
+    }
+  }
+}
+
+interface ManipulativeState {
+  manipulatives: CanvasManipulative[];
+  add: (
+    type: ManipulativeType,
+    options?: { x?: number; y?: number; data?: any; placedBy?: ManipulativeSource }
+  ) => CanvasManipulative;
+  update: (id: string, data: any, source: ManipulativeSource) => CanvasManipulative | undefined;
+  move: (id: string, x: number, y: number) => void;
+  remove: (id: string) => CanvasManipulative | undefined;
+  restore: (manipulative: CanvasManipulative) => void;
+  clear: () => void;
+}
+
+// Manipulatives on the canvas - shared by UnifiedCanvas and Pi's tools
+export const useManipulativeStore = create<ManipulativeState>((set, get) => ({
+  manipulatives: [],
+
+  add: (type, options = {}) => {
+    const offset = get().manipulatives.length * 40;
+    const manipulative: CanvasManipulative = {
+      id: `${type}-${Date.now()}-${get().manipulatives.length}`,
+      type,
+      x: options.x ?? 100 + offset,
+      y: options.y ?? 100 + offset,
+      data: options.data ?? defaultManipulativeData(type),
+      placedBy: options.placedBy ?? 'student'
+    };
+    set((state) => ({ manipulatives: [...state.manipulatives, manipulative] }));
+    return manipulative;
+  },
+
+  update: (id, data, source) => {
+    const existing = get().manipulatives.find(m => m.id === id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, data };
+    set((state) => ({
+      manipulatives: state.manipulatives.map(m => (m.id === id ? updated : m))
+    }));
+
+    // Let the session know how the student changed the model
+    sessionBus.emit({
+      type: 'manipulative-changed',
+      change: {
+        id,
+        type: existing.type,
+        placedBy: existing.placedBy,
+        source,
+        previousData: existing.data,
+        data
+      }
+    });
+    return updated;
+  },
+
+  move: (id, x, y) => {
+    set((state) => ({
+      manipulatives: state.manipulatives.map(m => (m.id === id ? { ...m, x, y } : m))
+    }));
+  },
+
+  remove: (id) => {
+    const existing = get().manipulatives.find(m => m.id === id);
+    if (existing) {
+      set((state) => ({ manipulatives: state.manipulatives.filter(m => m.id !== id) }));
+    }
+    return existing;
+  },
+
+  restore: (manipulative) => {
+    set((state) => ({
+      manipulatives: [...state.manipulatives.filter(m => m.id !== manipulative.id), manipulative]
+    }));
+  },
+
+  clear: () => set({ manipulatives: [] }),
+}));
@@ -0,0 +1,134 @@
+import {
+  ConceptMastery,
+  DEFAULT_MASTERY_PARAMS,
+  estimateMastery,
+  isMastered,
+  isStruggling,
+  MASTERED_THRESHOLD
+} from './masteryModel';
+import type { Session } from './sessionRecorder';
+import type { ReasoningStep } from './toolImplementations';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+const step = (
+  classification: ReasoningStep['classification'],
+  minutes: number,
+  concepts = ['equal parts'],
+  confidence?: number
+) => ({
+  id: `step-${minutes}-${classification}`,
+  timestamp: START + minutes * 60 * 1000,
+  classification,
+  concepts,
+  confidence
+}) as ReasoningStep;
+
+const session = (steps: ReasoningStep[]) => ({
+  id: 'session',
+  problemId: 'pizza-explore',
+  startTime: START,
+  events: [],
+  reasoningSteps: steps,
+  misconceptions: [],
+  hints: [],
+  canvasSnapshots: []
+}) as Session;
+
+const estimate = (steps: ReasoningStep[], now = START + 60 * 60 * 1000) =>
+  estimateMastery([session(steps)], now);
+
+const only = (concepts: ConceptMastery[]) => {
+  expect(concepts).toHaveLength(1);
+  return concepts[0];
+};
+
+describe('estimateMastery', () => {
+  it('raises mastery with each correct step', () => {
+    const history = only(estimate([step('correct', 1), step('correct', 2), step('correct', 3)])).history;
+    expect(history[0].mastery).toBeGreaterThan(DEFAULT_MASTERY_PARAMS.pInit);
+    expect(history[1].mastery).toBeGreaterThan(history[0].mastery);
+    expect(history[2].mastery).toBeGreaterThan(history[1].mastery);
+  });
+
+  it('ranks partial between incorrect and correct', () => {
+    const mastery = (classification: ReasoningStep['classification']) =>
+      only(estimate([step(classification, 1)])).mastery;
+    expect(mastery('incorrect')).toBeLessThan(mastery('partial'));
+    expect(mastery('partial')).toBeLessThan(mastery('correct'));
+  });
+
+  it('moves less on a low-confidence step', () => {
+    const sure = only(estimate([step('correct', 1, ['equal parts'], 1)])).mastery;
+    const unsure = only(estimate([step('correct', 1, ['equal parts'], 0.2)])).mastery;
+    expect(unsure).toBeLessThan(sure);
+  });
+
+  it('ignores exploring steps and steps without concepts', () => {
+    expect(estimate([step('exploring', 1), step('correct', 2, [])])).toEqual([]);
+    const withExploring = only(estimate([step('correct', 1), step('exploring', 2), step('correct', 3)]));
+    const without = only(estimate([step('correct', 1), step('correct', 3)]));
+    expect(withExploring.mastery).toBe(without.mastery);
+    expect(withExploring.observations).toBe(2);
+  });
+
+  it('tracks concepts separately, matching names loosely', () => {
+    const concepts = estimate([
+      step('correct', 1, ['Equal Parts ']),
+      step('incorrect', 2, ['number line']),
+      step('correct', 3, ['equal parts'])
+    ]);
+    expect(concepts.map(c => c.concept)).toEqual(['equal parts', 'number line']);
+    expect(concepts[0].observations).toBe(2);
+  });
+
+  it('decays toward pInit without practice', () => {
+    const steps = [step('correct', 1), step('correct', 2), step('correct', 3), step('correct', 4)];
+    const fresh = only(estimate(steps)).mastery;
+    const month = only(estimate(steps, START + 30 * DAY)).mastery;
+    const years = only(estimate(steps, START + 5 * 365 * DAY)).mastery;
+
+    expect(month).toBeLessThan(fresh);
+    // One half-life takes away about half of what was learned
+    expect(month - DEFAULT_MASTERY_PARAMS.pInit).toBeCloseTo((fresh - DEFAULT_MASTERY_PARAMS.pInit) / 2, 2);
+    expect(years).toBeCloseTo(DEFAULT_MASTERY_PARAMS.pInit, 2);
+  });
+
+  it('narrows the interval as evidence builds up', () => {
+    const width = (point: { lower: number; upper: number }) => point.upper - point.lower;
+    const steps = Array.from({ length: 8 }, (_, i) => step(i % 2 === 0 ? 'correct' : 'partial', i + 1));
+    const { history } = only(estimate(steps));
+    const few = only(estimate(steps.slice(0, 2)));
+    const many = only(estimate(steps));
+
+    expect(width(many)).toBeLessThan(width(few));
+    history.forEach(point => {
+      expect(point.lower).toBeLessThanOrEqual(point.mastery);
+      expect(point.upper).toBeGreaterThanOrEqual(point.mastery);
+    });
+  });
+});
+
+describe('isMastered / isStruggling', () => {
+  it('needs the estimate and the interval before calling a concept mastered', () => {
+    const one = only(estimate([step('correct', 1)]));
+    expect(isMastered(one)).toBe(false);
+
+    const many = only(estimate(Array.from({ length: 10 }, (_, i) => step('correct', i + 1))));
+    expect(many.mastery).toBeGreaterThanOrEqual(MASTERED_THRESHOLD);
+    expect(isMastered(many)).toBe(true);
+  });
+
+  it('flags struggling only after repeated low observations', () => {
+    expect(isStruggling(only(estimate([step('incorrect', 1)])))).toBe(false);
+    expect(isStruggling(only(estimate([step('incorrect', 1), step('incorrect', 2)])))).toBe(true);
+  });
+
+  it('does not call a concept struggling just because it faded', () => {
+    const steps = Array.from({ length: 6 }, (_, i) => step('correct', i + 1));
+    const faded = only(estimate(steps, START + 5 * 365 * DAY));
+    expect(faded.mastery).toBeLessThan(0.4);
+    expect(isStruggling(faded)).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Session } from './sessionRecorder';
+import type { ReasoningStep } from './toolImplementations';
+
+// Bayesian knowledge tracing: each concept is either known or not, and every
+// reasoning step that uses it is a noisy observation of which
+export interface MasteryParams {
+  pInit: number;   // P(known) before any evidence
+  pLearn: number;  // P(learning it) at each practice opportunity
+  pSlip: number;   // P(wrong | known)
+  pGuess: number;  // P(right | not known)
+  // Without practice, mastery drifts back toward pInit with this half-life
+  halfLifeMs: number;
+}
+
+export const DEFAULT_MASTERY_PARAMS: MasteryParams = {
+  pInit: 0.2,
+  pLearn: 0.15,
+  pSlip: 0.1,
+  pGuess: 0.25,
+  halfLifeMs: 30 * 24 * 60 * 60 * 1000
+};
+
+export const MASTERED_THRESHOLD = 0.8;
+export const STRUGGLING_THRESHOLD = 0.4;
+
+// How much a step counts as a correct answer. Exploring is thinking out
+// loud, not an answer, so it isn't evidence either way.
+const CORRECTNESS: Record<ReasoningStep['classification'], number | null> = {
+  correct: 1,
+  partial: 0.5,
+  incorrect: 0,
+  exploring: null
+};
+
+export interface MasteryPoint {
+  timestamp: number;
+  mastery: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ConceptMastery extends MasteryPoint {
+  concept: string;
+  observations: number;
+  lastPracticed: number;
+  history: MasteryPoint[];
+}
+
+export const normalizeConcept = (concept: string) => concept.trim().toLowerCase();
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Forgetting: pull mastery (and how much evidence we trust) back toward the prior
+const decay = (mastery: number, evidence: number, elapsedMs: number, params: MasteryParams) => {
+  const keep = Math.pow(0.5, Math.max(0, elapsedMs) / params.halfLifeMs);
+  return {
+    mastery: params.pInit + (mastery - params.pInit) * keep,
+    evidence: evidence * keep
+  };
+};
+
+// 95% interval, treating the estimate as the mean of a Beta with `evidence`
+// observations behind it (plus a uniform prior)
+const interval = (mastery: number, evidence: number) => {
+  const margin = 1.96 * Math.sqrt((mastery * (1 - mastery)) / (evidence + 3));
+  return { lower: clamp01(mastery - margin), upper: clamp01(mastery + margin) };
+};
+
+// One BKT step. A partial answer is split between the correct and incorrect
+// posteriors, and Pi's confidence scales how far the estimate moves.
+const observe = (mastery: number, correctness: number, confidence: number, params: MasteryParams) => {
+  const { pSlip, pGuess, pLearn } = params;
+  const ifCorrect = (mastery * (1 - pSlip)) / (mastery * (1 - pSlip) + (1 - mastery) * pGuess);
+  const ifIncorrect = (mastery * pSlip) / (mastery * pSlip + (1 - mastery) * (1 - pGuess));
+  const posterior = correctness * ifCorrect + (1 - correctness) * ifIncorrect;
+  const weighted = mastery + clamp01(confidence) * (posterior - mastery);
+  return weighted + (1 - weighted) * pLearn;
+};
+
+// Mastery per concept across every session's reasoning steps, decayed to `now`
+export function estimateMastery(
+  sessions: Session[],
+  now: number = Date.now(),
+  params: MasteryParams = DEFAULT_MASTERY_PARAMS
+): ConceptMastery[] {
+  const steps = sessions
+    .flatMap(session => session.reasoningSteps)
+    .filter(step => CORRECTNESS[step.classification] !== null && step.concepts?.length)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const states = new Map<string, { mastery: number; evidence: number; at: number; observations: number; history: MasteryPoint[] }>();
+
+  steps.forEach(step => {
+    const correctness = CORRECTNESS[step.classification] as number;
+    new Set(step.concepts.map(normalizeConcept)).forEach(concept => {
+      const state = states.get(concept) ||
+        { mastery: params.pInit, evidence: 0, at: step.timestamp, observations: 0, history: [] };
+      const decayed = decay(state.mastery, state.evidence, step.timestamp - state.at, params);
+      state.mastery = observe(decayed.mastery, correctness, step.confidence ?? 1, params);
+      state.evidence = decayed.evidence + clamp01(step.confidence ?? 1);
+      state.at = step.timestamp;
+      state.observations += 1;
+      state.history.push({ timestamp: step.timestamp, mastery: state.mastery, ...interval(state.mastery, state.evidence) });
+      states.set(concept, state);
+    });
+  });
+
+  return Array.from(states.entries())
+    .map(([concept, state]) => {
+      const current = decay(state.mastery, state.evidence, now - state.at, params);
+      return {
+        concept,
+        timestamp: now,
+        mastery: current.mastery,
+        ...interval(current.mastery, current.evidence),
+        observations: state.observations,
+        lastPracticed: state.at,
+        history: state.history
+      };
+    })
+    .sort((a, b) => b.mastery - a.mastery);
+}
+
+// Mastered only once the whole interval is clear of struggling, not just the estimate
+export const isMastered = (concept: ConceptMastery) =>
+  concept.mastery >= MASTERED_THRESHOLD && concept.lower >= STRUGGLING_THRESHOLD;
+
+// Judged on the last observed estimate: a concept that has only faded with
+// time needs review, not remediation
+export const isStruggling = (concept: ConceptMastery) => {
+  const observed = concept.history[concept.history.length - 1];
+  return concept.observations >= 2 && !!observed && observed.mastery < STRUGGLING_THRESHOLD;
+};
@@ -0,0 +1,84 @@
+import { create } from "zustand";
+import { getNextProblem, NextProblem } from '../data/adaptiveProblems';
+import { getStartingProblem, VisualProblem } from '../data/curriculum';
+import type { Misconception, ReasoningStep } from './toolImplementations';
+import type { ProblemTransition } from './sessionRecorder';
+import { useManipulativeStore } from './manipulativeStore';
+
+interface ProblemState {
+  currentProblem: VisualProblem | null;
+  enteredAt: number;
+  // Failed tries at this problem - starts again at 0 on a different problem
+  attemptCount: number;
+  // Bumped on every move, so going round to the same problem again is
+  // still a new problem for ProblemDisplay
+  visit: number;
+  // How the student got here - null at the start of a lesson
+  transition: ProblemTransition | null;
+  startLesson: (lessonId: string) => VisualProblem | undefined;
+  // Moves on through the problem graph; `misconceptions` is everything Pi
+  // has flagged, of which the ones since this problem started count
+  advance: (wasSuccessful: boolean, misconceptions: Misconception[]) => NextProblem | undefined;
+}
+
+// Flagged types for routing: major ones first, then the most recent
+const flaggedTypes = (misconceptions: Misconception[], since: number) =>
+  Array.from(new Set(
+    misconceptions
+      .filter(m => m.timestamp >= since)
+      .sort((a, b) => (a.severity === b.severity ? b.timestamp - a.timestamp : a.severity === 'major' ? -1 : 1))
+      .map(m => m.type)
+  ));
+
+// The problem the student is on, shared by ProblemDisplay, the "I'm done"
+// button and Pi's complete_problem tool
+export const useProblemStore = create<ProblemState>()((set, get) => ({
+  currentProblem: null,
+  enteredAt: 0,
+  attemptCount: 0,
+  visit: 0,
+  transition: null,
+
+  startLesson: (lessonId: string) => {
+    const problem = getStartingProblem(lessonId);
+    if (problem) {
+      // Models belong to the problem they were set up for
+      if (get().currentProblem?.id !== problem.id) useManipulativeStore.getState().clear();
+      set(state => ({
+        currentProblem: problem,
+        enteredAt: Date.now(),
+        attemptCount: 0,
+        visit: state.visit + 1,
+        transition: null
+      }));
+    }
+    return problem;
+  },
+
+  advance: (wasSuccessful: boolean, misconceptions: Misconception[]) => {
+    const { currentProblem, enteredAt, attemptCount } = get();
+    if (!currentProblem) return undefined;
+
+    const next = getNextProblem(currentProblem.id, wasSuccessful, attemptCount, flaggedTypes(misconceptions, enteredAt));
+    if (next) {
+      if (next.problem.id !== currentProblem.id) useManipulativeStore.getState().clear();
+      set(state => ({
+        currentProblem: next.problem,
+        enteredAt: Date.now(),
+        attemptCount: !wasSuccessful && next.problem.id === currentProblem.id ? attemptCount + 1 : 0,
+        visit: state.visit + 1,
+        transition: { wasSuccessful, attemptCount, misconceptionId: next.misconceptionId }
+      }));
+    }
+    return next;
+  }
+}));
+
+// For the student's "I'm done": solved if Pi heard correct reasoning on this
+// problem and the latest step wasn't wrong. Without Pi's judgment to go on,
+// the student gets the supported path.
+export const reasoningShowsSuccess = (steps: ReasoningStep[], since: number) => {
+  const recent = steps.filter(step => step.timestamp >= since && step.classification !== 'exploring');
+  return recent.some(step => step.classification === 'correct') &&
+    recent[recent.length - 1].classification !== 'incorrect';
+};
@@ -0,0 +1,29 @@
+export interface RateLimiterOptions {
+  minIntervalMs: number; // Minimum gap between two accepted events
+  maxPerWindow: number;  // Maximum accepted events inside the window
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  tryAcquire: (now?: number) => boolean;
+  reset: () => void;
+}
+
+// Sliding-window limiter used to stop Pi from spamming UI effects
+export function createRateLimiter({ minIntervalMs, maxPerWindow, windowMs }: RateLimiterOptions): RateLimiter {
+  let accepted: number[] = [];
+
+  return {
+    tryAcquire: (now = Date.now()) => {
+      accepted = accepted.filter(time => now - time < windowMs);
+      const last = accepted[accepted.length - 1];
+      if (last !== undefined && now - last < minIntervalMs) return false;
+      if (accepted.length >= maxPerWindow) return false;
+      accepted.push(now);
+      return true;
+    },
+    reset: () => {
+      accepted = [];
+    }
+  };
+}
@@ -0,0 +1,170 @@
+import type { Misconception, ReasoningStep } from './toolImplementations';
+import { BUBBLE_HEIGHT, BUBBLE_WIDTH } from '../components/ui/ReasoningBubble';
+
+// ReasoningBubble draws the step nodes, so its size is theirs
+export const STEP_NODE_WIDTH = BUBBLE_WIDTH;
+export const STEP_NODE_HEIGHT = BUBBLE_HEIGHT;
+export const MISCONCEPTION_NODE_WIDTH = 200;
+export const MISCONCEPTION_NODE_HEIGHT = 64;
+
+const LANE_GAP = 60;
+const ROW_GAP = 40;
+const MARGIN = 20;
+
+export interface StepNode {
+  kind: 'step';
+  id: string;
+  x: number;
+  y: number;
+  lane: number;
+  step: ReasoningStep;
+}
+
+export interface MisconceptionNode {
+  kind: 'misconception';
+  id: string;
+  x: number;
+  y: number;
+  stepId: string | null;
+  misconception: Misconception;
+}
+
+export type ReasoningMapNode = StepNode | MisconceptionNode;
+
+// 'continue' stays on a strategy, 'branch' switches to another one,
+// 'revealed' links a misconception to the step that showed it
+export type ReasoningMapEdgeKind = 'continue' | 'branch' | 'revealed';
+
+export interface ReasoningMapEdge {
+  from: string;
+  to: string;
+  kind: ReasoningMapEdgeKind;
+}
+
+export interface ReasoningMap {
+  nodes: ReasoningMapNode[];
+  edges: ReasoningMapEdge[];
+  width: number;
+  height: number;
+}
+
+const sharesConcept = (a: string[], b: string[]) => a.some(concept => b.includes(concept));
+
+// A lane is one strategy: a run of steps that keep using the same concepts.
+// A step joins the most recent lane it shares a concept with, or opens a new
+// lane when the student tries something unrelated. Steps without concepts
+// stay where the student already is.
+const assignLanes = (steps: ReasoningStep[]): number[] => {
+  const laneConcepts: string[][] = [];
+  let current = -1;
+
+  return steps.map(step => {
+    const concepts = step.concepts || [];
+    if (current === -1 || (concepts.length > 0 && !sharesConcept(concepts, laneConcepts[current]))) {
+      let match = -1;
+      for (let lane = laneConcepts.length - 1; lane >= 0; lane--) {
+        if (sharesConcept(concepts, laneConcepts[lane])) {
+          match = lane;
+          break;
+        }
+      }
+      current = match !== -1 ? match : laneConcepts.push([]) - 1;
+    }
+    laneConcepts[current] = Array.from(new Set([...laneConcepts[current], ...concepts]));
+    return current;
+  });
+};
+
+// The step Pi had just marked when it flagged the misconception, or the
+// first step if it was flagged before any
+const revealingStep = (misconception: Misconception, steps: ReasoningStep[]) => {
+  let found: ReasoningStep | null = null;
+  for (const step of steps) {
+    if (step.timestamp > misconception.timestamp) break;
+    found = step;
+  }
+  return found ?? steps[0] ?? null;
+};
+
+// Lays the session out top to bottom in time order, one column per strategy,
+// with misconceptions in a column of their own beside the step they came from
+export function buildReasoningMap(
+  reasoningSteps: ReasoningStep[],
+  reasoningMisconceptions: Misconception[]
+): ReasoningMap {
+  const steps = [...reasoningSteps].sort((a, b) => a.timestamp - b.timestamp);
+  const misconceptions = [...reasoningMisconceptions].sort((a, b) => a.timestamp - b.timestamp);
+  const lanes = assignLanes(steps);
+  const laneCount = Math.max(1, ...lanes.map(lane => lane + 1));
+
+  const stepNodes: StepNode[] = steps.map((step, i) => ({
+    kind: 'step',
+    id: step.id,
+    x: MARGIN + lanes[i] * (STEP_NODE_WIDTH + LANE_GAP),
+    y: MARGIN + i * (STEP_NODE_HEIGHT + ROW_GAP),
+    lane: lanes[i],
+    step
+  }));
+
+  const edges: ReasoningMapEdge[] = stepNodes.slice(1).map((node, i) => ({
+    from: stepNodes[i].id,
+    to: node.id,
+    kind: node.lane === stepNodes[i].lane ? 'continue' : 'branch'
+  }));
+
+  const misconceptionX = MARGIN + laneCount * (STEP_NODE_WIDTH + LANE_GAP);
+  const perStep = new Map<string | null, number>();
+  const misconceptionNodes: MisconceptionNode[] = misconceptions.map((misconception, i) => {
+    const step = revealingStep(misconception, steps);
+    const stepNode = step ? stepNodes.find(node => node.id === step.id) : undefined;
+    const stepId = step?.id ?? null;
+    const stacked = perStep.get(stepId) ?? 0;
+    perStep.set(stepId, stacked + 1);
+    if (stepId) edges.push({ from: stepId, to: misconception.id, kind: 'revealed' });
+    return {
+      kind: 'misconception',
+      id: misconception.id,
+      x: misconceptionX,
+      y: (stepNode?.y ?? MARGIN + i * (MISCONCEPTION_NODE_HEIGHT + ROW_GAP)) +
+        stacked * (MISCONCEPTION_NODE_HEIGHT + 10),
+      stepId,
+      misconception
+    };
+  });
+
+  const nodes: ReasoningMapNode[] = [...stepNodes, ...misconceptionNodes];
+  const right = Math.max(
+    ...stepNodes.map(node => node.x + STEP_NODE_WIDTH),
+    ...misconceptionNodes.map(node => node.x + MISCONCEPTION_NODE_WIDTH),
+    0
+  );
+  const bottom = Math.max(
+    ...stepNodes.map(node => node.y + STEP_NODE_HEIGHT),
+    ...misconceptionNodes.map(node => node.y + MISCONCEPTION_NODE_HEIGHT),
+    0
+  );
+
+  return { nodes, edges, width: right + MARGIN, height: bottom + MARGIN };
+}
+
+// Where an edge leaves / enters a node, for drawing connectors
+export function edgeEndpoints(map: ReasoningMap, edge: ReasoningMapEdge) {
+  const from = map.nodes.find(node => node.id === edge.from);
+  const to = map.nodes.find(node => node.id === edge.to);
+  if (!from || !to) return null;
+
+  if (edge.kind === 'revealed') {
+    return {
+      x1: from.x + STEP_NODE_WIDTH,
+      y1: from.y + STEP_NODE_HEIGHT / 2,
+      x2: to.x,
+      y2: to.y + MISCONCEPTION_NODE_HEIGHT / 2
+    };
+  }
+  return {
+    x1: from.x + STEP_NODE_WIDTH / 2,
+    y1: from.y + STEP_NODE_HEIGHT - 10,
+    x2: to.x + STEP_NODE_WIDTH / 2,
+    y2: to.y + 10
+  };
+}
@@ -0,0 +1,190 @@
+import type { Session } from './sessionRecorder';
+import { HINT_LEVELS, HintLevel, ReasoningStep } from './toolImplementations';
+import { misconceptionLabel } from '../data/misconceptions';
+
+export type StepClassification = ReasoningStep['classification'];
+export const STEP_CLASSIFICATIONS: StepClassification[] = ['correct', 'partial', 'incorrect', 'exploring'];
+
+// Transcription fragments only arrive as words are recognised, so a short
+// utterance can look instantaneous - assume at least this speaking rate
+const WORDS_PER_SECOND = 2.5;
+const MAX_TIMELINE_BUCKETS = 10;
+
+export interface ProblemAttempts {
+  problemId: string;
+  attempts: number;
+  incorrect: number;
+  timeMs: number;
+}
+
+// A detour getNextProblem took to work on a flagged misconception
+export interface RemediationRoute {
+  timestamp: number;
+  fromProblemId: string;
+  toProblemId: string;
+  misconceptionId: string;
+}
+
+export interface ClassificationBucket {
+  startMs: number;
+  counts: Record<StepClassification, number>;
+}
+
+export interface SessionAnalytics {
+  timeOnTaskMs: number;
+  studentTalkMs: number;
+  piTalkMs: number;
+  silenceMs: number;
+  attempts: number;
+  attemptsByProblem: ProblemAttempts[];
+  hintsByLevel: Record<HintLevel, number>;
+  classificationTimeline: ClassificationBucket[];
+  misconceptionCounts: { type: string; count: number }[];
+  remediations: RemediationRoute[];
+  celebrations: number;
+  insights: string[];
+}
+
+const emptyCounts = (): Record<StepClassification, number> => ({
+  correct: 0,
+  partial: 0,
+  incorrect: 0,
+  exploring: 0
+});
+
+const speakingTime = (text: string, startTime: number, endTime: number) => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(endTime - startTime, (words / WORDS_PER_SECOND) * 1000);
+};
+
+// Steps bucketed over the session so far - per minute, or coarser once the
+// session is long enough that minutes would make too many columns
+const classificationTimeline = (steps: ReasoningStep[], startTime: number, durationMs: number) => {
+  const bucketMs = Math.max(60000, Math.ceil(durationMs / MAX_TIMELINE_BUCKETS / 60000) * 60000);
+  const bucketCount = Math.max(1, Math.ceil(durationMs / bucketMs));
+  const buckets: ClassificationBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    startMs: i * bucketMs,
+    counts: emptyCounts()
+  }));
+  steps.forEach(step => {
+    const index = Math.min(bucketCount - 1, Math.max(0, Math.floor((step.timestamp - startTime) / bucketMs)));
+    if (buckets[index].counts[step.classification] !== undefined) {
+      buckets[index].counts[step.classification] += 1;
+    }
+  });
+  return buckets;
+};
+
+const describeMinutes = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? 'under a minute' : `${minutes} min`;
+};
+
+// A few plain-language observations for the teacher, strongest signal first
+const buildInsights = (analytics: Omit<SessionAnalytics, 'insights'>, steps: ReasoningStep[]): string[] => {
+  const insights: string[] = [];
+
+  const topMisconception = analytics.misconceptionCounts[0];
+  if (topMisconception) {
+    insights.push(`Pi flagged "${misconceptionLabel(topMisconception.type)}" ${topMisconception.count} ${topMisconception.count === 1 ? 'time' : 'times'}`);
+  }
+
+  const lastRemediation = analytics.remediations[analytics.remediations.length - 1];
+  if (lastRemediation) {
+    insights.push(`Moved to ${lastRemediation.toProblemId} to work on "${misconceptionLabel(lastRemediation.misconceptionId)}"`);
+  }
+
+  const hardest = [...analytics.attemptsByProblem].sort((a, b) => b.incorrect - a.incorrect)[0];
+  if (hardest && hardest.incorrect > 0) {
+    insights.push(`Most incorrect attempts on ${hardest.problemId} (${hardest.incorrect} of ${hardest.attempts})`);
+  }
+
+  if (steps.length >= 3) {
+    const recent = steps.slice(-3);
+    if (recent.every(step => step.classification === 'correct')) {
+      insights.push('Last three reasoning steps were all correct');
+    } else if (recent.every(step => step.classification === 'incorrect')) {
+      insights.push('Last three reasoning steps were incorrect - may need a different approach');
+    }
+  }
+
+  const worked = analytics.hintsByLevel.worked_example;
+  if (worked > 0) {
+    insights.push(`Needed ${worked} worked ${worked === 1 ? 'example' : 'examples'}`);
+  }
+
+  const talkMs = analytics.studentTalkMs + analytics.piTalkMs;
+  if (talkMs > 0) {
+    const studentShare = Math.round((analytics.studentTalkMs / talkMs) * 100);
+    insights.push(`Student did ${studentShare}% of the talking (${describeMinutes(analytics.studentTalkMs)})`);
+  }
+
+  return insights;
+};
+
+// Everything the Analytics tab shows, from the recorder's session and the
+// celebrations in sessionStore since it started. `now` closes an open session.
+export function computeSessionAnalytics(
+  session: Session,
+  celebrationTimestamps: number[],
+  now: number = Date.now()
+): SessionAnalytics {
+  const end = session.endTime ?? now;
+  const timeOnTaskMs = Math.max(0, end - session.startTime);
+  const steps = session.reasoningSteps;
+
+  let studentTalkMs = 0;
+  let piTalkMs = 0;
+  (session.transcript || []).forEach(line => {
+    const ms = speakingTime(line.text, line.startTime, line.endTime);
+    if (line.speaker === 'student') studentTalkMs += ms;
+    else piTalkMs += ms;
+  });
+
+  const byProblem = new Map<string, ProblemAttempts>();
+  const remediations: RemediationRoute[] = [];
+  (session.problemVisits || []).forEach(visit => {
+    if (visit.remediationFor && visit.nextProblemId && visit.exitedAt !== undefined) {
+      remediations.push({
+        timestamp: visit.exitedAt,
+        fromProblemId: visit.problemId,
+        toProblemId: visit.nextProblemId,
+        misconceptionId: visit.remediationFor
+      });
+    }
+    const entry = byProblem.get(visit.problemId) || { problemId: visit.problemId, attempts: 0, incorrect: 0, timeMs: 0 };
+    entry.attempts += visit.attempts;
+    entry.incorrect += visit.incorrectAttempts;
+    entry.timeMs += Math.max(0, (visit.exitedAt ?? end) - visit.enteredAt);
+    byProblem.set(visit.problemId, entry);
+  });
+
+  const hintsByLevel = HINT_LEVELS.reduce(
+    (counts, level) => ({ ...counts, [level]: session.hints.filter(hint => hint.level === level).length }),
+    {} as Record<HintLevel, number>
+  );
+
+  const misconceptionTotals = new Map<string, number>();
+  session.misconceptions.forEach(misconception => {
+    misconceptionTotals.set(misconception.type, (misconceptionTotals.get(misconception.type) || 0) + 1);
+  });
+
+  const analytics = {
+    timeOnTaskMs,
+    studentTalkMs,
+    piTalkMs,
+    silenceMs: Math.max(0, timeOnTaskMs - studentTalkMs - piTalkMs),
+    attempts: steps.length,
+    attemptsByProblem: Array.from(byProblem.values()),
+    hintsByLevel,
+    classificationTimeline: classificationTimeline(steps, session.startTime, timeOnTaskMs),
+    misconceptionCounts: Array.from(misconceptionTotals.entries())
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count),
+    remediations,
+    celebrations: celebrationTimestamps.filter(t => t >= session.startTime && t <= end).length
+  };
+
+  return { ...analytics, insights: buildInsights(analytics, steps) };
+}
+
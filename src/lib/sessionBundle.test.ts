@@ -0,0 +1,176 @@
+import {
+  importSessionBundle,
+  SESSION_BUNDLE_FORMAT,
+  SESSION_BUNDLE_VERSION,
+  validateSessionBundle
+} from './sessionBundle';
+import { sessionRecorder, Session } from './sessionRecorder';
+import { loadSessions, loadSessionSnapshots, saveSession } from './sessionDatabase';
+
+// An in-memory stand-in for IndexedDB, which jsdom doesn't have. Plain
+// functions, since CRA resets jest.fn implementations before each test.
+jest.mock('./sessionDatabase', () => {
+  const sessions = new Map<string, any>();
+  const snapshots = new Map<string, any>();
+  return {
+    saveSession: async (session: any) => {
+      sessions.set(session.id, session);
+    },
+    saveSnapshot: async (snapshot: any) => {
+      snapshots.set(snapshot.id, snapshot);
+    },
+    loadSessions: async () => Array.from(sessions.values()),
+    loadSessionSnapshots: async (sessionId: string) =>
+      Array.from(snapshots.values()).filter(snapshot => snapshot.sessionId === sessionId),
+    clearSessions: async () => {
+      sessions.clear();
+      snapshots.clear();
+    },
+    dataUrlToBlob: () => new Blob()
+  };
+});
+
+const session = (id: string, overrides: Partial<Session> = {}): Session => ({
+  id,
+  problemId: 'pizza-explore',
+  startTime: 1000,
+  endTime: 2000,
+  status: 'ended',
+  events: [{ type: 'problem_change', timestamp: 1000, data: { problemId: 'pizza-explore' } }],
+  reasoningSteps: [],
+  misconceptions: [],
+  hints: [],
+  canvasSnapshots: [],
+  ...overrides
+});
+
+const bundle = (overrides: Record<string, unknown> = {}) => ({
+  format: SESSION_BUNDLE_FORMAT,
+  version: SESSION_BUNDLE_VERSION,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  sessions: [session('a')],
+  snapshots: [],
+  ...overrides
+});
+
+// jsdom's Blob has no text(), the only thing importSessionBundle reads
+const file = (value: unknown) =>
+  ({ text: async () => (typeof value === 'string' ? value : JSON.stringify(value)) }) as Blob;
+
+describe('validateSessionBundle', () => {
+  it('accepts a well-formed bundle', () => {
+    expect(validateSessionBundle(bundle())).toEqual({ ok: true, bundle: bundle() });
+  });
+
+  it('treats a missing snapshot list as empty', () => {
+    const result = validateSessionBundle(bundle({ snapshots: undefined }));
+    expect(result.ok && result.bundle.snapshots).toEqual([]);
+  });
+
+  it('rejects things that are not bundles', () => {
+    const notABundle = { ok: false, issues: [{ path: 'format', message: 'not a Simili session bundle' }] };
+    expect(validateSessionBundle(null)).toEqual(notABundle);
+    expect(validateSessionBundle([bundle()])).toEqual(notABundle);
+    expect(validateSessionBundle(bundle({ format: 'something-else' }))).toEqual(notABundle);
+  });
+
+  it('rejects bad and newer format versions', () => {
+    expect(validateSessionBundle(bundle({ version: '1' }))).toEqual({
+      ok: false,
+      issues: [{ path: 'version', message: 'expected a positive whole number' }]
+    });
+    const newer = validateSessionBundle(bundle({ version: SESSION_BUNDLE_VERSION + 1 }));
+    expect(!newer.ok && newer.issues).toEqual([{ path: 'version', message: expect.stringContaining('newer version of Simili') }]);
+  });
+
+  it('reports malformed sessions by path', () => {
+    const result = validateSessionBundle(bundle({
+      sessions: [
+        session('a'),
+        { ...session('b'), startTime: 'yesterday', status: 'paused', hints: undefined },
+        session('c', {
+          events: [{ type: 'teleport', timestamp: 1 } as any],
+          transcript: [{ speaker: 'teacher', text: 'hi', startTime: 1 } as any],
+          problemVisits: [{ problemId: 'pizza-explore' } as any]
+        }),
+        'not a session'
+      ]
+    }));
+    expect(!result.ok && result.issues).toEqual([
+      { path: 'sessions[1].startTime', message: 'expected a number' },
+      { path: 'sessions[1].status', message: 'expected one of active, ended, recovered' },
+      { path: 'sessions[1].hints', message: 'expected an array' },
+      { path: 'sessions[2].transcript[0].speaker', message: 'expected student or pi' },
+      { path: 'sessions[2].problemVisits[0].enteredAt', message: 'expected a number' },
+      { path: 'sessions[2].events[0].type', message: 'unknown event type teleport' },
+      { path: 'sessions[3]', message: 'expected a session object' }
+    ]);
+  });
+
+  it('rejects snapshots that are not base64 PNGs of a bundled session', () => {
+    const snapshot = {
+      id: 'snap',
+      sessionId: 'a',
+      timestamp: 1500,
+      fileName: 'snapshots/snap.png',
+      mimeType: 'image/png',
+      data: 'iVBORw0KGgo='
+    };
+    expect(validateSessionBundle(bundle({ snapshots: [snapshot] })).ok).toBe(true);
+
+    const result = validateSessionBundle(bundle({
+      snapshots: [{ ...snapshot, sessionId: 'missing', mimeType: 'image/jpeg', data: 'not base64!' }]
+    }));
+    expect(!result.ok && result.issues).toEqual([
+      { path: 'snapshots[0].sessionId', message: 'does not match any session in the bundle' },
+      { path: 'snapshots[0].mimeType', message: 'expected image/png' },
+      { path: 'snapshots[0].data', message: 'expected base64 PNG data' }
+    ]);
+  });
+});
+
+describe('importSessionBundle', () => {
+  beforeEach(() => sessionRecorder.clearAllSessions());
+
+  it('adds new sessions and skips ones already stored', async () => {
+    await saveSession(session('a', { problemId: 'kept' }));
+
+    const result = await importSessionBundle(file(bundle({
+      sessions: [session('a', { problemId: 'imported' }), session('b', { status: 'active' })]
+    })));
+
+    expect(result).toEqual({ imported: ['b'], skipped: ['a'] });
+    const stored = await loadSessions();
+    expect(stored.find(s => s.id === 'a')?.problemId).toBe('kept');
+    // A session still open when it was exported can't be resumed here
+    expect(stored.find(s => s.id === 'b')?.status).toBe('recovered');
+  });
+
+  it('only saves snapshots for sessions it imported', async () => {
+    await saveSession(session('a'));
+    const snapshot = (id: string, sessionId: string) => ({
+      id,
+      sessionId,
+      timestamp: 1500,
+      fileName: `snapshots/${id}.png`,
+      mimeType: 'image/png',
+      data: 'iVBORw0KGgo='
+    });
+
+    await importSessionBundle(file(bundle({
+      sessions: [session('a'), session('b')],
+      snapshots: [snapshot('old', 'a'), snapshot('new', 'b')]
+    })));
+
+    expect(await loadSessionSnapshots('a')).toEqual([]);
+    expect((await loadSessionSnapshots('b')).map(snapshot => snapshot.id)).toEqual(['new']);
+  });
+
+  it('rejects files that are not JSON or not bundles', async () => {
+    await expect(importSessionBundle(file('{ not json'))).rejects.toThrow('This file is not valid JSON');
+    await expect(importSessionBundle(file(bundle({ version: 99 })))).rejects.toThrow(
+      /^This file is not a valid session bundle \(version: /
+    );
+    expect(await loadSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+import { ValidationIssue } from './toolRegistry';
+import {
+  sessionRecorder,
+  Session,
+  SESSION_EVENT_TYPES,
+  SESSION_STATUSES
+} from './sessionRecorder';
+import { dataUrlToBlob, loadSessionSnapshots, saveSnapshot } from './sessionDatabase';
+
+export const SESSION_BUNDLE_FORMAT = 'simili-session-bundle';
+// Bump when the bundle shape changes, and teach validateSessionBundle to
+// read the older versions
+export const SESSION_BUNDLE_VERSION = 1;
+
+// A canvas snapshot as a PNG "file" inside the bundle
+export interface BundleSnapshot {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  fileName: string;
+  mimeType: 'image/png';
+  data: string; // base64
+}
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: Session[];
+  snapshots: BundleSnapshot[];
+}
+
+export type BundleValidationResult =
+  | { ok: true; bundle: SessionBundle }
+  | { ok: false; issues: ValidationIssue[] };
+
+export interface ImportResult {
+  imported: string[];
+  skipped: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const blobToPngBase64 = async (blob: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('No 2d context available for PNG conversion');
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Sessions (all of them, or just `ids`) with their snapshots as PNGs
+export async function exportSessions(ids?: string[]): Promise<SessionBundle> {
+  const all = await sessionRecorder.getAllSessions();
+  const sessions = ids ? all.filter(s => ids.includes(s.id)) : all;
+
+  const snapshots: BundleSnapshot[] = [];
+  for (const session of sessions) {
+    for (const snapshot of await loadSessionSnapshots(session.id)) {
+      snapshots.push({
+        id: snapshot.id,
+        sessionId: session.id,
+        timestamp: snapshot.timestamp,
+        fileName: `snapshots/${snapshot.id}.png`,
+        mimeType: 'image/png',
+        data: await blobToPngBase64(snapshot.blob)
+      });
+    }
+  }
+
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions,
+    snapshots
+  };
+}
+
+export function downloadSessionBundle(bundle: SessionBundle, fileName?: string) {
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName || `simili-sessions-${bundle.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const validateSession = (session: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isObject(session)) {
+    issues.push({ path, message: 'expected a session object' });
+    return;
+  }
+  const requireType = (key: string, type: 'string' | 'number') => {
+    if (typeof session[key] !== type) {
+      issues.push({ path: `${path}.${key}`, message: `expected a ${type}` });
+    }
+  };
+  const requireArray = (key: string) => {
+    if (!Array.isArray(session[key])) {
+      issues.push({ path: `${path}.${key}`, message: 'expected an array' });
+    }
+  };
+
+  requireType('id', 'string');
+  requireType('problemId', 'string');
+  requireType('startTime', 'number');
+  if (session.endTime !== undefined) requireType('endTime', 'number');
+  if (session.status !== undefined && !SESSION_STATUSES.includes(session.status)) {
+    issues.push({ path: `${path}.status`, message: `expected one of ${SESSION_STATUSES.join(', ')}` });
+  }
+  if (session.studentId !== undefined) requireType('studentId', 'string');
+  if (session.lessonId !== undefined) requireType('lessonId', 'string');
+  ['events', 'reasoningSteps', 'misconceptions', 'hints', 'canvasSnapshots'].forEach(requireArray);
+
+  if (session.transcript !== undefined) {
+    if (!Array.isArray(session.transcript)) {
+      issues.push({ path: `${path}.transcript`, message: 'expected an array' });
+    } else {
+      session.transcript.forEach((line: unknown, i: number) => {
+        const linePath = `${path}.transcript[${i}]`;
+        if (!isObject(line)) {
+          issues.push({ path: linePath, message: 'expected a transcript entry' });
+        } else if (line.speaker !== 'student' && line.speaker !== 'pi') {
+          issues.push({ path: `${linePath}.speaker`, message: 'expected student or pi' });
+        } else if (typeof line.text !== 'string' || typeof line.startTime !== 'number') {
+          issues.push({ path: linePath, message: 'expected text and a startTime' });
+        }
+      });
+    }
+  }
+
+  // Sessions recorded before problem visits were tracked don't have any
+  if (session.problemVisits !== undefined) {
+    if (!Array.isArray(session.problemVisits)) {
+      issues.push({ path: `${path}.problemVisits`, message: 'expected an array' });
+    } else {
+      session.problemVisits.forEach((visit: unknown, i: number) => {
+        const visitPath = `${path}.problemVisits[${i}]`;
+        if (!isObject(visit)) {
+          issues.push({ path: visitPath, message: 'expected a problem visit object' });
+        } else if (typeof visit.problemId !== 'string') {
+          issues.push({ path: `${visitPath}.problemId`, message: 'expected a string' });
+        } else if (typeof visit.enteredAt !== 'number') {
+          issues.push({ path: `${visitPath}.enteredAt`, message: 'expected a number' });
+        }
+      });
+    }
+  }
+
+  if (Array.isArray(session.events)) {
+    session.events.forEach((event: unknown, i: number) => {
+      const eventPath = `${path}.events[${i}]`;
+      if (!isObject(event)) {
+        issues.push({ path: eventPath, message: 'expected an event object' });
+      } else if (!SESSION_EVENT_TYPES.includes(event.type)) {
+        issues.push({ path: `${eventPath}.type`, message: `unknown event type ${event.type}` });
+      } else if (typeof event.timestamp !== 'number') {
+        issues.push({ path: `${eventPath}.timestamp`, message: 'expected a number' });
+      }
+    });
+  }
+};
+
+export function validateSessionBundle(value: unknown): BundleValidationResult {
+  const issues: ValidationIssue[] = [];
+
+  if (!isObject(value) || value.format !== SESSION_BUNDLE_FORMAT) {
+    return { ok: false, issues: [{ path: 'format', message: 'not a Simili session bundle' }] };
+  }
+  if (!Number.isInteger(value.version) || value.version < 1) {
+    issues.push({ path: 'version', message: 'expected a positive whole number' });
+  } else if (value.version > SESSION_BUNDLE_VERSION) {
+    issues.push({ path: 'version', message: `made by a newer version of Simili (bundle v${value.version}, this app reads up to v${SESSION_BUNDLE_VERSION})` });
+  }
+
+  if (!Array.isArray(value.sessions)) {
+    issues.push({ path: 'sessions', message: 'expected an array' });
+  } else {
+    value.sessions.forEach((session: unknown, i: number) => validateSession(session, `sessions[${i}]`, issues));
+  }
+
+  const snapshots = value.snapshots ?? [];
+  const sessionIds = new Set(Array.isArray(value.sessions) ? value.sessions.map((s: any) => s?.id) : []);
+  if (!Array.isArray(snapshots)) {
+    issues.push({ path: 'snapshots', message: 'expected an array' });
+  } else {
+    snapshots.forEach((snapshot: unknown, i: number) => {
+      const path = `snapshots[${i}]`;
+      if (!isObject(snapshot)) {
+        issues.push({ path, message: 'expected a snapshot object' });
+        return;
+      }
+      if (typeof snapshot.id !== 'string') issues.push({ path: `${path}.id`, message: 'expected a string' });
+      if (!sessionIds.has(snapshot.sessionId)) {
+        issues.push({ path: `${path}.sessionId`, message: 'does not match any session in the bundle' });
+      }
+      if (typeof snapshot.timestamp !== 'number') issues.push({ path: `${path}.timestamp`, message: 'expected a number' });
+      if (snapshot.mimeType !== 'image/png') issues.push({ path: `${path}.mimeType`, message: 'expected image/png' });
+      if (typeof snapshot.data !== 'string' || !BASE64.test(snapshot.data)) {
+        issues.push({ path: `${path}.data`, message: 'expected base64 PNG data' });
+      }
+    });
+  }
+
+  if (issues.length > 0) return { ok: false, issues };
+  return { ok: true, bundle: { ...(value as SessionBundle), snapshots } };
+}
+
+// Reads a bundle file, validates it, and adds any sessions we don't have yet
+export async function importSessionBundle(file: Blob): Promise<ImportResult> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const result = validateSessionBundle(parsed);
+  if (!result.ok) {
+    const details = result.issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    throw new Error(`This file is not a valid session bundle (${details})`);
+  }
+
+  const { sessions, snapshots } = result.bundle;
+  const imported = await sessionRecorder.mergeSessions(sessions);
+  const importedIds = new Set(imported);
+
+  for (const snapshot of snapshots) {
+    if (!importedIds.has(snapshot.sessionId)) continue;
+    await saveSnapshot({
+      id: snapshot.id,
+      sessionId: snapshot.sessionId,
+      timestamp: snapshot.timestamp,
+      blob: dataUrlToBlob(`data:${snapshot.mimeType};base64,${snapshot.data}`)
+    });
+  }
+
+  return {
+    imported,
+    skipped: sessions.map(s => s.id).filter(id => !importedIds.has(id))
+  };
+}
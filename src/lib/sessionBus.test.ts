@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import { createEventBus } from './sessionBus';
+
+type TestEvent =
+  | { type: 'added'; id: string; value: number }
+  | { type: 'removed'; id: string }
+  | { type: 'reset' };
+
+describe('createEventBus', () => {
+  it('runs without a DOM', () => {
+    expect(typeof window).toBe('undefined');
+    expect(typeof document).toBe('undefined');
+  });
+
+  it('delivers events to the handlers for their type only', () => {
+    const bus = createEventBus<TestEvent>();
+    const added: number[] = [];
+    const removed: string[] = [];
+    bus.on('added', event => added.push(event.value));
+    bus.on('removed', event => removed.push(event.id));
+
+    bus.emit({ type: 'added', id: 'a', value: 1 });
+    bus.emit({ type: 'removed', id: 'a' });
+    bus.emit({ type: 'added', id: 'b', value: 2 });
+    bus.emit({ type: 'reset' });
+
+    expect(added).toEqual([1, 2]);
+    expect(removed).toEqual(['a']);
+  });
+
+  it('passes the whole payload through', () => {
+    const bus = createEventBus<TestEvent>();
+    const handler = jest.fn();
+    bus.on('added', handler);
+    bus.emit({ type: 'added', id: 'a', value: 3 });
+    expect(handler).toHaveBeenCalledWith({ type: 'added', id: 'a', value: 3 });
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const bus = createEventBus<TestEvent>();
+    const handler = jest.fn();
+    const unsubscribe = bus.on('reset', handler);
+    bus.emit({ type: 'reset' });
+    unsubscribe();
+    bus.emit({ type: 'reset' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('finishes the current emit when a handler unsubscribes another', () => {
+    const bus = createEventBus<TestEvent>();
+    const later = jest.fn();
+    let unsubscribeLater = () => {};
+    bus.on('reset', () => unsubscribeLater());
+    unsubscribeLater = bus.on('reset', later);
+
+    bus.emit({ type: 'reset' });
+    bus.emit({ type: 'reset' });
+    expect(later).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps going when a handler throws', () => {
+    const bus = createEventBus<TestEvent>();
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const after = jest.fn();
+    bus.on('reset', () => {
+      throw new Error('boom');
+    });
+    bus.on('reset', after);
+
+    expect(() => bus.emit({ type: 'reset' })).not.toThrow();
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith('Session event handler for reset failed:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('drops every handler on clear', () => {
+    const bus = createEventBus<TestEvent>();
+    const handler = jest.fn();
+    bus.on('reset', handler);
+    bus.clear();
+    bus.emit({ type: 'reset' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import type {
+  CanvasAnnotation,
+  Celebration,
+  Hint,
+  Misconception,
+  ReasoningStep
+} from './toolImplementations';
+import type { ManipulativeChange } from './manipulativeStore';
+import type { Session } from './sessionRecorder';
+import type { TranscriptSegment } from '../types';
+
+// Everything that happens during a tutoring session, as one discriminated
+// union - tools emit these, the recorder and UI subscribe
+export type SessionBusEvent =
+  | { type: 'reasoning-step-added'; step: ReasoningStep }
+  | { type: 'reasoning-step-removed'; id: string }
+  | { type: 'misconception-flagged'; misconception: Misconception }
+  | { type: 'misconception-removed'; id: string }
+  | { type: 'hint-suggested'; hint: Hint }
+  | { type: 'visual-hint-requested'; hint: Hint }
+  | { type: 'visual-hint-dismissed'; id: string }
+  | { type: 'celebrate-exploration'; celebration: Celebration }
+  | { type: 'celebrate-mistake'; step: ReasoningStep }
+  | { type: 'celebration-cancelled'; id: string }
+  | { type: 'canvas-annotation'; annotation: CanvasAnnotation }
+  | { type: 'canvas-annotation-removed'; id: string }
+  | { type: 'canvas-snapshot'; snapshot: string }
+  | { type: 'manipulative-changed'; change: ManipulativeChange }
+  | { type: 'tool-call-cancelled'; callId: string; name: string }
+  | { type: 'transcript-received'; segment: TranscriptSegment }
+  // Pi's turn finished or was interrupted - the next fragment starts a new entry
+  | { type: 'transcript-turn-ended' }
+  | { type: 'session-updated'; session: Session }
+  | { type: 'session-ended'; session: Session };
+
+export type SessionBusEventType = SessionBusEvent['type'];
+
+export type SessionBusEventOf<T extends SessionBusEventType> = Extract<SessionBusEvent, { type: T }>;
+
+export interface EventBus<E extends { type: string }> {
+  emit: (event: E) => void;
+  // Returns an unsubscribe function
+  on: <T extends E['type']>(type: T, handler: (event: Extract<E, { type: T }>) => void) => () => void;
+  clear: () => void;
+}
+
+// Plain in-memory pub/sub - no DOM, so it works the same in tests
+export function createEventBus<E extends { type: string }>(): EventBus<E> {
+  const handlers = new Map<string, Set<(event: any) => void>>();
+
+  return {
+    emit: (event) => {
+      // Copy so handlers can unsubscribe while we iterate
+      Array.from(handlers.get(event.type) ?? []).forEach(handler => {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error(`Session event handler for ${event.type} failed:`, error);
+        }
+      });
+    },
+
+    on: (type, handler) => {
+      const set = handlers.get(type) ?? new Set();
+      set.add(handler);
+      handlers.set(type, set);
+      return () => {
+        set.delete(handler);
+      };
+    },
+
+    clear: () => handlers.clear(),
+  };
+}
+
+export const sessionBus = createEventBus<SessionBusEvent>();
@@ -0,0 +1,279 @@
+import type { Session } from './sessionRecorder';
+
+const DB_NAME = 'simili';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const SNAPSHOTS_STORE = 'snapshots';
+
+// Sessions saved by older builds, all in one localStorage blob
+const LEGACY_STORAGE_KEY = 'simili-sessions';
+
+// Start pruning when we're using this much of the origin's quota...
+const QUOTA_HIGH_WATER = 0.8;
+// ...and stop once we're back under this
+const QUOTA_LOW_WATER = 0.6;
+
+// A canvas snapshot, stored apart from its session so session records stay small
+export interface StoredSnapshot {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  blob: Blob;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function openSessionDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        let sessions: IDBObjectStore;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          sessions.createIndex('startTime', 'startTime');
+          sessions.createIndex('status', 'status');
+        } else {
+          sessions = request.transaction!.objectStore(SESSIONS_STORE);
+        }
+        // Version 2: sessions belong to a student
+        if (!sessions.indexNames.contains('studentId')) {
+          sessions.createIndex('studentId', 'studentId');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+          snapshots.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again rather than caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Runs a write, and if the browser says we're out of space, prunes old
+// data and tries once more
+async function writeWithQuotaRetry(write: () => Promise<void>) {
+  try {
+    await write();
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    console.warn('Session storage is full - pruning old sessions and retrying');
+    await pruneStorage(true);
+    await write();
+  }
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64 = ''] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/jpeg';
+  const bytes = atob(base64);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    buffer[i] = bytes.charCodeAt(i);
+  }
+  return new Blob([buffer], { type: mimeType });
+}
+
+async function putSession(db: IDBDatabase, session: Session) {
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put({ ...session, updatedAt: Date.now() });
+  await transactionDone(transaction);
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  const db = await openSessionDatabase();
+  await writeWithQuotaRetry(() => putSession(db, session));
+}
+
+export async function saveSnapshot(snapshot: StoredSnapshot): Promise<void> {
+  const db = await openSessionDatabase();
+  await writeWithQuotaRetry(async () => {
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).put(snapshot);
+    await transactionDone(transaction);
+  });
+}
+
+// Oldest first
+export async function loadSessions(): Promise<Session[]> {
+  const db = await openSessionDatabase();
+  const index = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index('startTime');
+  return requestToPromise(index.getAll() as IDBRequest<Session[]>);
+}
+
+// Oldest first. Sessions recorded without a student aren't in the index.
+export async function loadStudentSessions(studentId: string): Promise<Session[]> {
+  const db = await openSessionDatabase();
+  const index = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index('studentId');
+  const sessions = await requestToPromise(index.getAll(studentId) as IDBRequest<Session[]>);
+  return sessions.sort((a, b) => a.startTime - b.startTime);
+}
+
+export async function loadSession(id: string): Promise<Session | null> {
+  const db = await openSessionDatabase();
+  const store = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE);
+  const session = await requestToPromise(store.get(id) as IDBRequest<Session | undefined>);
+  return session || null;
+}
+
+export async function loadSnapshot(id: string): Promise<StoredSnapshot | null> {
+  const db = await openSessionDatabase();
+  const store = db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE);
+  const snapshot = await requestToPromise(store.get(id) as IDBRequest<StoredSnapshot | undefined>);
+  return snapshot || null;
+}
+
+export async function loadSessionSnapshots(sessionId: string): Promise<StoredSnapshot[]> {
+  const db = await openSessionDatabase();
+  const index = db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).index('sessionId');
+  const snapshots = await requestToPromise(index.getAll(sessionId) as IDBRequest<StoredSnapshot[]>);
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+async function deleteSnapshotsFor(db: IDBDatabase, sessionId: string) {
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const index = transaction.objectStore(SNAPSHOTS_STORE).index('sessionId');
+  const keys = await requestToPromise(index.getAllKeys(sessionId));
+  keys.forEach(key => transaction.objectStore(SNAPSHOTS_STORE).delete(key));
+  await transactionDone(transaction);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openSessionDatabase();
+  await deleteSnapshotsFor(db, id);
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function clearSessions(): Promise<void> {
+  const db = await openSessionDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).clear();
+  transaction.objectStore(SNAPSHOTS_STORE).clear();
+  await transactionDone(transaction);
+}
+
+// Sessions still marked active were cut off by a crash or a closed tab.
+// Close them at their last write so they show up like any other session.
+export async function recoverUnfinishedSessions(exceptId?: string): Promise<Session[]> {
+  const sessions = await loadSessions();
+  const unfinished = sessions.filter(s => s.status === 'active' && s.id !== exceptId);
+
+  for (const session of unfinished) {
+    await saveSession({
+      ...session,
+      status: 'recovered',
+      endTime: session.updatedAt || session.startTime
+    });
+  }
+  if (unfinished.length > 0) {
+    console.log(`Recovered ${unfinished.length} unfinished session(s)`);
+  }
+  return unfinished;
+}
+
+// One-off move of the old localStorage blob into IndexedDB, splitting out
+// the base64 snapshots it used to embed
+export async function migrateLegacySessions(): Promise<number> {
+  let legacy: any[];
+  try {
+    legacy = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]');
+  } catch {
+    legacy = [];
+  }
+  if (legacy.length === 0) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  for (const session of legacy) {
+    const snapshotIds: string[] = [];
+    for (const [i, dataUrl] of (session.canvasSnapshots || []).entries()) {
+      if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) continue;
+      const id = `${session.id}-snapshot-${i}`;
+      await saveSnapshot({ id, sessionId: session.id, timestamp: session.startTime, blob: dataUrlToBlob(dataUrl) });
+      snapshotIds.push(id);
+    }
+    await saveSession({
+      ...session,
+      hints: session.hints || [],
+      status: 'ended',
+      canvasSnapshots: snapshotIds,
+      events: (session.events || []).map((event: any) =>
+        event.type === 'canvas_change' ? { ...event, data: {} } : event
+      )
+    });
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`Moved ${legacy.length} session(s) from localStorage to IndexedDB`);
+  return legacy.length;
+}
+
+const isOverQuota = async (threshold: number) => {
+  if (!navigator.storage?.estimate) return false;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 && usage / quota > threshold;
+};
+
+// Frees space oldest-first: snapshots of finished sessions go before any
+// session record does, since the records are what progress is built from.
+// `force` prunes at least one session even if the estimate looks fine
+// (e.g. after a QuotaExceededError).
+export async function pruneStorage(force = false): Promise<void> {
+  if (!force && !(await isOverQuota(QUOTA_HIGH_WATER))) return;
+
+  const db = await openSessionDatabase();
+  const finished = (await loadSessions()).filter(s => s.status !== 'active');
+
+  for (const session of finished) {
+    if (session.canvasSnapshots.length === 0) continue;
+    await deleteSnapshotsFor(db, session.id);
+    await putSession(db, { ...session, canvasSnapshots: [], snapshotsPruned: true });
+    force = false;
+    if (!(await isOverQuota(QUOTA_LOW_WATER))) return;
+  }
+
+  for (const session of finished) {
+    if (!force && !(await isOverQuota(QUOTA_LOW_WATER))) return;
+    await deleteSession(session.id);
+    force = false;
+  }
+}
+
+// Ask the browser not to evict our data under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+}
@@ -1,106 +1,384 @@
-import { sessionStore } from './toolImplementations';
+import { Hint, Misconception, ReasoningStep } from './toolImplementations';
+import { sessionBus, SessionBusEventOf } from './sessionBus';
+import type { TranscriptSpeaker } from '../types';
+import { getStartingProblem } from '../data/curriculum';
+import { isOnRoster, useStudentStore } from './studentProfiles';
+import {
+  clearSessions,
+  dataUrlToBlob,
+  deleteSession,
+  loadSession,
+  loadSessions,
+  loadStudentSessions,
+  migrateLegacySessions,
+  pruneStorage,
+  recoverUnfinishedSessions,
+  requestPersistentStorage,
+  saveSession,
+  saveSnapshot
+} from './sessionDatabase';
+
+// Batch writes while events are streaming in
+const PERSIST_DELAY_MS = 1000;
+
+export const SESSION_EVENT_TYPES = [
+  'tool_call',
+  'tool_call_cancelled',
+  'canvas_change',
+  'manipulative_change',
+  'problem_change',
+  'audio_start',
+  'audio_stop'
+] as const;
 
 export interface SessionEvent {
-  type: 'tool_call' | 'canvas_change' | 'audio_start' | 'audio_stop';
+  type: typeof SESSION_EVENT_TYPES[number];
   timestamp: number;
   data: any;
 }
 
+// A hint Pi gave, tagged with the problem the student was on
+export interface SessionHint extends Hint {
+  problemId: string;
+}
+
+// How the student left a problem: getNextProblem's success / struggle
+// branch, a jump that didn't go through getNextProblem (e.g. a new lesson),
+// or the session ending while they were still on it
+export type ProblemExit = 'success' | 'struggle' | 'switched' | 'session_ended';
+
+// The path getNextProblem took: what ProblemDisplay tells us when it moves on.
+// `misconceptionId` is set when it detoured to work on a flagged misconception.
+export interface ProblemTransition {
+  wasSuccessful: boolean;
+  attemptCount: number;
+  misconceptionId?: string;
+}
+
+// One stay on one problem
+export interface ProblemVisit {
+  problemId: string;
+  enteredAt: number;
+  exitedAt?: number;
+  // Reasoning steps Pi marked while the student was on this problem
+  attempts: number;
+  incorrectAttempts: number;
+  exit?: ProblemExit;
+  nextProblemId?: string;
+  // The misconception the next problem was picked to work on
+  remediationFor?: string;
+}
+
+// One uninterrupted stretch of speech, stitched together from the live
+// transcription fragments
+export interface TranscriptEntry {
+  speaker: TranscriptSpeaker;
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+// 'recovered' sessions were never ended - the tab closed or crashed
+export const SESSION_STATUSES = ['active', 'ended', 'recovered'] as const;
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
 export interface Session {
   id: string;
+  // The student profile it was recorded for - missing when nobody was picked
+  studentId?: string;
+  lessonId?: string;
+  // The first problem of the session
   problemId: string;
   startTime: number;
   endTime?: number;
+  status?: SessionStatus;
+  updatedAt?: number;
   events: SessionEvent[];
-  reasoningSteps: any[];
-  misconceptions: any[];
+  reasoningSteps: ReasoningStep[];
+  misconceptions: Misconception[];
+  hints: SessionHint[];
+  problemVisits?: ProblemVisit[];
+  // What the student and Pi actually said - missing on older sessions
+  transcript?: TranscriptEntry[];
+  // Ids of snapshots in the session database, not the images themselves
   canvasSnapshots: string[];
+  snapshotsPruned?: boolean;
 }
 
 export class SessionRecorder {
   private currentSession: Session | null = null;
   private events: SessionEvent[] = [];
   private canvasSnapshotInterval: NodeJS.Timeout | null = null;
+  private currentProblemId: string | null = null;
+  private transcriptFinished = false;
+  // The visit each reasoning step was counted on, so a cancelled step can be
+  // taken back off it
+  private stepVisits = new Map<string, ProblemVisit>();
+  private unsubscribers: (() => void)[] = [];
+  private persistTimer: NodeJS.Timeout | null = null;
 
-  startSession(problemId: string) {
+  startSession(lessonId: string, studentId?: string) {
+    // e.g. a reconnect - close out the previous session first
+    if (this.currentSession) this.endSession();
+
+    const startTime = Date.now();
+    this.transcriptFinished = false;
+    this.stepVisits.clear();
     this.currentSession = {
-      id: `session-${Date.now()}`,
-      problemId,
-      startTime: Date.now(),
+      id: `session-${startTime}`,
+      studentId,
+      lessonId,
+      // Before ProblemDisplay reports one, the lesson's starting problem
+      problemId: this.currentProblemId || getStartingProblem(lessonId)?.id || lessonId,
+      problemVisits: this.currentProblemId ? [this.newVisit(this.currentProblemId, startTime)] : [],
+      startTime,
+      status: 'active',
       events: [],
       reasoningSteps: [],
       misconceptions: [],
+      hints: [],
+      transcript: [],
       canvasSnapshots: []
     };
     
-    // Listen for events
-    window.addEventListener('reasoning-step-added', this.handleReasoningStep);
-    window.addEventListener('misconception-flagged', this.handleMisconception);
-    window.addEventListener('canvas-snapshot', this.handleCanvasSnapshot);
+    // Listen for events - dropping any subscriptions from a session that
+    // was never ended, so nothing gets recorded twice
+    this.unsubscribe();
+    this.unsubscribers = [
+      sessionBus.on('reasoning-step-added', this.handleReasoningStep),
+      sessionBus.on('misconception-flagged', this.handleMisconception),
+      sessionBus.on('hint-suggested', this.handleHint),
+      sessionBus.on('canvas-snapshot', this.handleCanvasSnapshot),
+      sessionBus.on('tool-call-cancelled', this.handleToolCallCancelled),
+      sessionBus.on('manipulative-changed', this.handleManipulativeChanged),
+      sessionBus.on('transcript-received', this.handleTranscript),
+      sessionBus.on('transcript-turn-ended', this.handleTurnEnded)
+    ];
+    this.notify();
+    this.persist();
     
     console.log('Session started:', this.currentSession.id);
   }
 
-  private handleReasoningStep = (event: Event) => {
-    const customEvent = event as CustomEvent;
+  private handleReasoningStep = ({ step }: SessionBusEventOf<'reasoning-step-added'>) => {
+    if (this.currentSession) {
+      this.currentSession.reasoningSteps.push(step);
+    }
+    const visit = this.currentVisit();
+    if (visit) {
+      visit.attempts += 1;
+      if (step.classification === 'incorrect') visit.incorrectAttempts += 1;
+      this.stepVisits.set(step.id, visit);
+    }
     this.addEvent({
       type: 'tool_call',
       timestamp: Date.now(),
-      data: { tool: 'mark_reasoning_step', params: customEvent.detail }
+      data: { tool: 'mark_reasoning_step', params: step }
     });
-    
-    if (this.currentSession) {
-      this.currentSession.reasoningSteps.push(customEvent.detail);
-    }
   };
 
-  private handleMisconception = (event: Event) => {
-    const customEvent = event as CustomEvent;
+  private handleMisconception = ({ misconception }: SessionBusEventOf<'misconception-flagged'>) => {
+    if (this.currentSession) {
+      this.currentSession.misconceptions.push(misconception);
+    }
     this.addEvent({
       type: 'tool_call',
       timestamp: Date.now(),
-      data: { tool: 'flag_misconception', params: customEvent.detail }
+      data: { tool: 'flag_misconception', params: misconception }
     });
-    
+  };
+
+  private handleHint = ({ hint }: SessionBusEventOf<'hint-suggested'>) => {
     if (this.currentSession) {
-      this.currentSession.misconceptions.push(customEvent.detail);
+      this.currentSession.hints.push({
+        ...hint,
+        problemId: this.currentProblemId || this.currentSession.problemId
+      });
     }
+    this.addEvent({
+      type: 'tool_call',
+      timestamp: Date.now(),
+      data: { tool: 'suggest_hint', params: hint }
+    });
   };
 
-  private handleCanvasSnapshot = (event: Event) => {
-    const customEvent = event as CustomEvent;
+  // Snapshots go straight to their own store; the session only keeps ids
+  private handleCanvasSnapshot = ({ snapshot }: SessionBusEventOf<'canvas-snapshot'>) => {
+    if (!this.currentSession) return;
+
+    const sessionId = this.currentSession.id;
+    const timestamp = Date.now();
+    const snapshotId = `${sessionId}-snapshot-${this.currentSession.canvasSnapshots.length}`;
+    this.currentSession.canvasSnapshots.push(snapshotId);
+    saveSnapshot({ id: snapshotId, sessionId, timestamp, blob: dataUrlToBlob(snapshot) })
+      .catch(error => console.error('Failed to save canvas snapshot:', error));
+
     this.addEvent({
       type: 'canvas_change',
+      timestamp,
+      data: { snapshotId }
+    });
+  };
+
+  // How the student (or Pi) changed a manipulative - in particular, what the
+  // student did with a model Pi set up for them
+  private handleManipulativeChanged = ({ change }: SessionBusEventOf<'manipulative-changed'>) => {
+    this.addEvent({
+      type: 'manipulative_change',
       timestamp: Date.now(),
-      data: { snapshot: customEvent.detail }
+      data: {
+        ...change,
+        problemId: this.currentProblemId || this.currentSession?.problemId
+      }
     });
-    
-    if (this.currentSession) {
-      this.currentSession.canvasSnapshots.push(customEvent.detail);
+  };
+
+  // Fragments keep extending the current entry until the other speaker
+  // starts, the server marks the segment finished or the turn ends
+  private handleTranscript = ({ segment }: SessionBusEventOf<'transcript-received'>) => {
+    if (!this.currentSession) return;
+    const transcript = this.currentSession.transcript ||= [];
+    const last = transcript[transcript.length - 1];
+
+    if (last && last.speaker === segment.speaker && !this.transcriptFinished) {
+      last.text += segment.text;
+      last.endTime = segment.timestamp;
+    } else {
+      transcript.push({
+        speaker: segment.speaker,
+        text: segment.text.trimStart(),
+        startTime: segment.timestamp,
+        endTime: segment.timestamp
+      });
     }
+    this.transcriptFinished = segment.finished;
+    this.notify();
+  };
+
+  // Without this, consecutive Pi turns merge into one entry spanning the
+  // silence between them
+  private handleTurnEnded = () => {
+    this.transcriptFinished = true;
+  };
+
+  // Pi cancelled a call: keep it in the event log but flag it, and drop
+  // whatever it contributed to the session's reasoning record
+  private handleToolCallCancelled = ({ callId, name }: SessionBusEventOf<'tool-call-cancelled'>) => {
+    if (!this.currentSession) return;
+
+    this.currentSession.events.forEach(sessionEvent => {
+      if (sessionEvent.type === 'tool_call' && sessionEvent.data.params?.callId === callId) {
+        sessionEvent.data.cancelled = true;
+      }
+    });
+    this.currentSession.reasoningSteps = this.currentSession.reasoningSteps.filter(step => {
+      if (step.callId !== callId) return true;
+      // Even if the student has moved on since
+      const visit = this.stepVisits.get(step.id);
+      if (visit) {
+        visit.attempts -= 1;
+        if (step.classification === 'incorrect') visit.incorrectAttempts -= 1;
+        this.stepVisits.delete(step.id);
+      }
+      return false;
+    });
+    this.currentSession.misconceptions = this.currentSession.misconceptions.filter(m => m.callId !== callId);
+    this.currentSession.hints = this.currentSession.hints.filter(h => h.callId !== callId);
+
+    this.addEvent({
+      type: 'tool_call_cancelled',
+      timestamp: Date.now(),
+      data: { tool: name, callId }
+    });
   };
 
+  private newVisit(problemId: string, enteredAt: number): ProblemVisit {
+    return { problemId, enteredAt, attempts: 0, incorrectAttempts: 0 };
+  }
+
+  private currentVisit(): ProblemVisit | undefined {
+    const visits = this.currentSession?.problemVisits;
+    const last = visits?.[visits.length - 1];
+    return last && last.exitedAt === undefined ? last : undefined;
+  }
+
+  private closeVisit(exit: ProblemExit, nextProblemId?: string, remediationFor?: string) {
+    const visit = this.currentVisit();
+    if (!visit) return;
+    visit.exitedAt = Date.now();
+    visit.exit = exit;
+    visit.nextProblemId = nextProblemId;
+    if (remediationFor) visit.remediationFor = remediationFor;
+  }
+
+  // Which problem the student is looking at, so hints and attempts can be
+  // attributed. `transition` is how getNextProblem got here, if it did.
+  setCurrentProblem(problemId: string, transition?: ProblemTransition) {
+    const previousProblemId = this.currentProblemId;
+    this.currentProblemId = problemId;
+    // A retry of the same problem is still a new visit, a re-render is not
+    if (!this.currentSession || (!transition && previousProblemId === problemId)) return;
+
+    const exit: ProblemExit = !transition ? 'switched' : transition.wasSuccessful ? 'success' : 'struggle';
+    this.closeVisit(exit, problemId, transition?.misconceptionId);
+    this.currentSession.problemVisits = [
+      ...(this.currentSession.problemVisits || []),
+      this.newVisit(problemId, Date.now())
+    ];
+    this.addEvent({
+      type: 'problem_change',
+      timestamp: Date.now(),
+      data: { from: previousProblemId, to: problemId, ...transition }
+    });
+  }
+
   addEvent(event: SessionEvent) {
     this.events.push(event);
     if (this.currentSession) {
       this.currentSession.events.push(event);
+      this.notify();
+    }
+  }
+
+  // Tell subscribers (e.g. ReasoningTrace) the current session changed,
+  // and write it out shortly so a crash loses at most a second of it
+  private notify() {
+    if (this.currentSession) {
+      sessionBus.emit({ type: 'session-updated', session: this.currentSession });
+      this.schedulePersist();
     }
   }
 
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.persist(), PERSIST_DELAY_MS);
+  }
+
+  private persist() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.currentSession) return;
+    saveSession(this.currentSession)
+      .catch(error => console.error('Failed to save session:', error));
+  }
+
+  private unsubscribe() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
   endSession() {
     if (!this.currentSession) return null;
     
+    this.closeVisit('session_ended');
     this.currentSession.endTime = Date.now();
-    
-    // Save to localStorage
-    const sessions = this.getAllSessions();
-    sessions.push(this.currentSession);
-    localStorage.setItem('simili-sessions', JSON.stringify(sessions));
+    this.currentSession.status = 'ended';
+    this.persist();
     
     // Clean up
-    window.removeEventListener('reasoning-step-added', this.handleReasoningStep);
-    window.removeEventListener('misconception-flagged', this.handleMisconception);
-    window.removeEventListener('canvas-snapshot', this.handleCanvasSnapshot);
+    this.unsubscribe();
     
     if (this.canvasSnapshotInterval) {
       clearInterval(this.canvasSnapshotInterval);
@@ -109,26 +387,78 @@ export class SessionRecorder {
     console.log('Session ended:', this.currentSession.id);
     const session = this.currentSession;
     this.currentSession = null;
+    sessionBus.emit({ type: 'session-ended', session });
     
     return session;
   }
 
-  getAllSessions(): Session[] {
+  // Run once at startup: bring over sessions saved by older builds, close
+  // sessions a crash left open, and make room if storage is getting full
+  async initStorage() {
+    try {
+      await migrateLegacySessions();
+      await recoverUnfinishedSessions(this.currentSession?.id);
+      await pruneStorage();
+      await requestPersistentStorage();
+    } catch (error) {
+      console.error('Session storage unavailable:', error);
+    }
+  }
+
+  // Oldest first. `studentId` narrows to one student's sessions, or with
+  // null to the ones with no student on the roster.
+  async getAllSessions(studentId?: string | null): Promise<Session[]> {
     try {
-      const stored = localStorage.getItem('simili-sessions');
-      return stored ? JSON.parse(stored) : [];
-    } catch {
+      if (studentId) return await loadStudentSessions(studentId);
+      const sessions = await loadSessions();
+      if (studentId !== null) return sessions;
+      const { students } = useStudentStore.getState();
+      return sessions.filter(s => !isOnRoster(students, s.studentId));
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
       return [];
     }
   }
 
-  getSession(id: string): Session | null {
-    const sessions = this.getAllSessions();
-    return sessions.find(s => s.id === id) || null;
+  async getSession(id: string): Promise<Session | null> {
+    try {
+      return await loadSession(id);
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      return null;
+    }
+  }
+
+  async clearAllSessions() {
+    await clearSessions();
   }
 
-  clearAllSessions() {
-    localStorage.removeItem('simili-sessions');
+  // Hands sessions to a student, e.g. ones recorded before they had a profile
+  async assignSessions(ids: string[], studentId: string) {
+    for (const id of ids) {
+      const session = await loadSession(id);
+      if (session) await saveSession({ ...session, studentId });
+    }
+  }
+
+  // Everything recorded for a student, when they leave the roster
+  async deleteStudentSessions(studentId: string) {
+    for (const session of await loadStudentSessions(studentId)) {
+      if (session.id !== this.currentSession?.id) await deleteSession(session.id);
+    }
+  }
+
+  // Adds sessions from elsewhere (e.g. an imported bundle). Sessions we
+  // already have are left alone. Returns the ids that were added.
+  async mergeSessions(sessions: Session[]): Promise<string[]> {
+    const existing = new Set((await loadSessions()).map(s => s.id));
+    const added: string[] = [];
+    for (const session of sessions) {
+      if (existing.has(session.id) || session.id === this.currentSession?.id) continue;
+      await saveSession({ ...session, status: session.status === 'active' ? 'recovered' : session.status });
+      added.push(session.id);
+    }
+    return added;
   }
 
   getCurrentSession(): Session | null {
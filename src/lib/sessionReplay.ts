@@ -0,0 +1,136 @@
+import type { Session, SessionEvent, TranscriptEntry } from './sessionRecorder';
+import type { TranscriptSpeaker } from '../types';
+import { misconceptionLabel } from '../data/misconceptions';
+
+export type ReplayEntryKind =
+  | 'reasoning'
+  | 'misconception'
+  | 'hint'
+  | 'canvas'
+  | 'manipulative'
+  | 'problem'
+  | 'speech'
+  | 'cancelled';
+
+// One moment on the replay timeline, relative to the session start
+export interface ReplayEntry {
+  kind: ReplayEntryKind;
+  offsetMs: number;
+  label: string;
+  detail?: string;
+  classification?: string;
+  snapshotId?: string;
+  speaker?: TranscriptSpeaker;
+  cancelled?: boolean;
+}
+
+export interface ReplayTimeline {
+  durationMs: number;
+  entries: ReplayEntry[];
+}
+
+const toEntry = (event: SessionEvent, offsetMs: number): ReplayEntry | null => {
+  const { data } = event;
+  switch (event.type) {
+    case 'tool_call': {
+      const params = data.params || {};
+      const cancelled = !!data.cancelled;
+      if (data.tool === 'mark_reasoning_step') {
+        return {
+          kind: 'reasoning',
+          offsetMs,
+          label: `"${params.transcript}"`,
+          detail: (params.concepts || []).join(', '),
+          classification: params.classification,
+          cancelled
+        };
+      }
+      if (data.tool === 'flag_misconception') {
+        return {
+          kind: 'misconception',
+          offsetMs,
+          label: misconceptionLabel(String(params.type || '')),
+          detail: params.evidence,
+          cancelled
+        };
+      }
+      if (data.tool === 'suggest_hint') {
+        return {
+          kind: 'hint',
+          offsetMs,
+          label: `Hint (${String(params.level || '').replace(/_/g, ' ')})`,
+          detail: params.content,
+          cancelled
+        };
+      }
+      return null;
+    }
+    case 'canvas_change':
+      // Sessions moved over from localStorage may have lost their snapshots
+      return data.snapshotId
+        ? { kind: 'canvas', offsetMs, label: 'Canvas updated', snapshotId: data.snapshotId }
+        : null;
+    case 'manipulative_change':
+      return {
+        kind: 'manipulative',
+        offsetMs,
+        label: `${data.source === 'pi' ? 'Pi' : 'Student'} changed the ${String(data.type).replace(/-/g, ' ')}`
+      };
+    case 'problem_change':
+      return {
+        kind: 'problem',
+        offsetMs,
+        label: data.misconceptionId
+          ? `Sent to ${data.to} to work on ${misconceptionLabel(data.misconceptionId)}`
+          : `Moved on to ${data.to}`,
+        detail: data.wasSuccessful === undefined
+          ? undefined
+          : `${data.wasSuccessful ? 'Solved' : 'Struggled with'} ${data.from}`
+      };
+    case 'tool_call_cancelled':
+      return { kind: 'cancelled', offsetMs, label: `Pi took back ${data.tool}` };
+    default:
+      return null;
+  }
+};
+
+const speechEntry = (line: TranscriptEntry, offsetMs: number): ReplayEntry => ({
+  kind: 'speech',
+  offsetMs,
+  label: `${line.speaker === 'pi' ? 'Pi' : 'Student'}: ${line.text.trim()}`,
+  speaker: line.speaker
+});
+
+export function buildReplayTimeline(session: Session): ReplayTimeline {
+  const offset = (timestamp: number) => Math.max(0, timestamp - session.startTime);
+  const entries = [
+    ...session.events.map(event => toEntry(event, offset(event.timestamp))),
+    ...(session.transcript || []).map(line => speechEntry(line, offset(line.startTime)))
+  ]
+    .filter((entry): entry is ReplayEntry => entry !== null)
+    .sort((a, b) => a.offsetMs - b.offsetMs);
+
+  const lastOffset = entries.length > 0 ? entries[entries.length - 1].offsetMs : 0;
+  const end = session.endTime ?? session.updatedAt ?? session.startTime;
+  return {
+    durationMs: Math.max(lastOffset, end - session.startTime),
+    entries
+  };
+}
+
+// The snapshot showing on the canvas at `offsetMs`
+export function snapshotAt(timeline: ReplayTimeline, offsetMs: number): string | null {
+  let snapshotId: string | null = null;
+  for (const entry of timeline.entries) {
+    if (entry.offsetMs > offsetMs) break;
+    if (entry.snapshotId) snapshotId = entry.snapshotId;
+  }
+  return snapshotId;
+}
+
+export function formatOffset(offsetMs: number): string {
+  const totalSeconds = Math.floor(offsetMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
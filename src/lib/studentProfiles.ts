@@ -0,0 +1,62 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { useTutorSettingsStore } from "./tutorSettings";
+
+// Big, friendly and easy to tell apart - students find themselves by these
+export const STUDENT_AVATARS = ['🦊', '🐼', '🐸', '🦁', '🐙', '🦄', '🐢', '🐝', '🦖', '🐧', '🐰', '🐯'];
+
+export interface StudentProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  createdAt: number;
+}
+
+interface StudentState {
+  students: StudentProfile[];
+  // Who is learning on this device right now
+  currentStudentId: string | null;
+  addStudent: (name: string, avatar: string) => StudentProfile;
+  updateStudent: (id: string, changes: Partial<Pick<StudentProfile, 'name' | 'avatar'>>) => void;
+  removeStudent: (id: string) => void;
+  selectStudent: (id: string | null) => void;
+}
+
+// The class roster, persisted in localStorage. Picking a student also swaps
+// in their tutor settings.
+export const useStudentStore = create<StudentState>()(
+  persist(
+    (set, get) => ({
+      students: [],
+      currentStudentId: null,
+      addStudent: (name: string, avatar: string) => {
+        const student = { id: `student-${Date.now()}`, name: name.trim(), avatar, createdAt: Date.now() };
+        set(state => ({ students: [...state.students, student] }));
+        return student;
+      },
+      updateStudent: (id, changes) => set(state => ({
+        students: state.students.map(student =>
+          student.id === id ? { ...student, ...changes, name: (changes.name ?? student.name).trim() } : student
+        )
+      })),
+      removeStudent: (id: string) => {
+        if (get().currentStudentId === id) get().selectStudent(null);
+        set(state => ({ students: state.students.filter(student => student.id !== id) }));
+        useTutorSettingsStore.getState().forgetStudent(id);
+      },
+      selectStudent: (id: string | null) => {
+        set({ currentStudentId: id });
+        useTutorSettingsStore.getState().switchStudent(id);
+      },
+    }),
+    { name: 'simili-students' }
+  )
+);
+
+// False for sessions recorded without a profile, or for a student who has
+// since been removed (or is on another device's roster, for imports)
+export const isOnRoster = (students: StudentProfile[], studentId?: string): boolean =>
+  !!studentId && students.some(student => student.id === studentId);
+
+export const selectCurrentStudent = (state: StudentState): StudentProfile | null =>
+  state.students.find(student => student.id === state.currentStudentId) || null;
@@ -0,0 +1,30 @@
+import { create } from "zustand";
+import type { ToolErrorCode } from "./toolImplementations";
+
+// A tool call from Pi that we had to answer with an error
+export interface FailedToolCall {
+  callId?: string;
+  name: string;
+  args?: Record<string, unknown>;
+  error: ToolErrorCode;
+  message: string;
+  timestamp: number;
+}
+
+interface ToolCallLogState {
+  maxEntries: number;
+  failures: FailedToolCall[];
+  recordFailure: (failure: FailedToolCall) => void;
+  clearFailures: () => void;
+}
+
+export const useToolCallLogStore = create<ToolCallLogState>((set, get) => ({
+  maxEntries: 50,
+  failures: [],
+  recordFailure: (failure: FailedToolCall) => {
+    set((state) => ({
+      failures: [...state.failures.slice(-(get().maxEntries - 1)), failure],
+    }));
+  },
+  clearFailures: () => set({ failures: [] }),
+}));
@@ -1,6 +1,17 @@
 import { FunctionCall } from "@google/genai";
 import { v4 as uuidv4 } from 'uuid';
 import { designSystem } from '../config/designSystem';
+import { createToolRegistry, defineTool, param, ValidationIssue } from './toolRegistry';
+import { useToolCallLogStore } from './toolCallLog';
+import { createRateLimiter } from './rateLimiter';
+import { useTutorSettingsStore } from './tutorSettings';
+import { buildManipulativeData, MANIPULATIVE_TYPES, useManipulativeStore } from './manipulativeStore';
+import { describeCanvasState, getCanvasState } from './canvasState';
+import { sessionBus } from './sessionBus';
+import { MISCONCEPTION_IDS, misconceptionCatalog } from '../data/misconceptions';
+import { matchSuccessCriteria } from '../data/adaptiveProblems';
+import { getLesson } from '../data/curriculum';
+import { useProblemStore } from './problemStore';
 
 // Types for our tool responses
 export interface ReasoningStep {
@@ -11,14 +22,16 @@ export interface ReasoningStep {
   concepts: string[];
   confidence: number;
   canvasSnapshot?: string;
+  callId?: string; // The Pi function call that recorded this step
 }
 
 export interface Misconception {
   id: string;
   timestamp: number;
-  type: 'unequal_parts' | 'counting_not_measuring' | 'whole_unclear';
+  type: string; // A misconceptionCatalog id
   evidence: string;
   severity: 'minor' | 'major';
+  callId?: string;
 }
 
 export interface CanvasAnnotation {
@@ -27,6 +40,38 @@ export interface CanvasAnnotation {
   coordinates: { x: number; y: number }[];
   color: string;
   message?: string;
+  callId?: string;
+}
+
+// Hint levels in escalation order, from lightest to heaviest support
+export type HintLevel = 'encouragement' | 'question' | 'visual_hint' | 'worked_example';
+export const HINT_LEVELS: HintLevel[] = ['encouragement', 'question', 'visual_hint', 'worked_example'];
+
+export interface HintManipulative {
+  type: 'fraction-circles' | 'fraction-bar';
+  parts: number;
+  shaded: number;
+}
+
+export interface Hint {
+  id: string;
+  timestamp: number;
+  level: HintLevel;
+  content: string;
+  manipulative?: HintManipulative; // Ghosted model for visual hints
+  steps?: string[];                // Worked example steps
+  callId?: string;
+}
+
+export type CelebrationAnimation = 'sparkle' | 'grow' | 'bounce';
+export const CELEBRATION_ANIMATIONS: CelebrationAnimation[] = ['sparkle', 'grow', 'bounce'];
+
+export interface Celebration {
+  id: string;
+  timestamp: number;
+  message: string;
+  animation: CelebrationAnimation;
+  callId?: string;
 }
 
 // Store for session data
@@ -34,149 +79,629 @@ export const sessionStore = {
   reasoningSteps: [] as ReasoningStep[],
   misconceptions: [] as Misconception[],
   annotations: [] as CanvasAnnotation[],
-  celebrations: [] as any[]
+  hints: [] as Hint[],
+  celebrations: [] as Celebration[]
 };
 
-// Tool implementation functions
-export const toolImplementations = {
-  mark_reasoning_step: async (params: any) => {
+// Remove an entry from one of the session store lists in place
+function removeById<T extends { id: string }>(list: T[], id: string) {
+  const index = list.findIndex(item => item.id === id);
+  if (index !== -1) list.splice(index, 1);
+}
+
+// Celebrations lose their magic if Pi fires them constantly
+const celebrationLimiter = createRateLimiter({ minIntervalMs: 8000, maxPerWindow: 4, windowMs: 60000 });
+
+const canCelebrate = () =>
+  useTutorSettingsStore.getState().celebrations !== 'off' && celebrationLimiter.tryAcquire();
+
+// Tool definitions - each tool declares its schema once; the Gemini
+// FunctionDeclarations in piTutor.ts are generated from these
+const markReasoningStep = defineTool({
+  name: 'mark_reasoning_step',
+  description: "Record a step in student's reasoning",
+  parameters: {
+    transcript: param.string('What the student said'),
+    classification: param.enum(
+      ['correct', 'partial', 'incorrect', 'exploring'],
+      'Classification of the reasoning step'
+    ),
+    concepts: param.array(param.string(), 'Mathematical concepts involved'),
+    confidence: param.number({ description: 'Confidence level 0-1', min: 0, max: 1 })
+  },
+  execute: async (params, { callId, onCancel }) => {
     const step: ReasoningStep = {
       id: uuidv4(),
       timestamp: Date.now(),
       transcript: params.transcript,
       classification: params.classification,
       concepts: params.concepts,
-      confidence: params.confidence
+      confidence: params.confidence,
+      callId
     };
     
     // Add to session store
     sessionStore.reasoningSteps.push(step);
+    onCancel(() => {
+      removeById(sessionStore.reasoningSteps, step.id);
+      sessionBus.emit({ type: 'reasoning-step-removed', id: step.id });
+    });
     
     // Emit event for UI update
-    window.dispatchEvent(new CustomEvent('reasoning-step-added', { detail: step }));
+    sessionBus.emit({ type: 'reasoning-step-added', step });
     
     // If incorrect, we celebrate the attempt
-    if (step.classification === 'incorrect') {
-      window.dispatchEvent(new CustomEvent('celebrate-mistake', { detail: step }));
+    if (step.classification === 'incorrect' && canCelebrate()) {
+      sessionBus.emit({ type: 'celebrate-mistake', step });
     }
     
     return { success: true, stepId: step.id };
+  }
+});
+
+const flagMisconception = defineTool({
+  name: 'flag_misconception',
+  description: 'Identify a mathematical misconception',
+  parameters: {
+    type: param.enum(
+      MISCONCEPTION_IDS,
+      ['Type of misconception, from the catalog:', ...misconceptionCatalog.map(m => `${m.id}: ${m.description}`)].join('\n')
+    ),
+    evidence: param.string('What the student said or did'),
+    severity: param.enum(['minor', 'major'], 'Severity of the misconception')
   },
-  
-  flag_misconception: async (params: any) => {
+  execute: async (params, { callId, onCancel }) => {
+    // The tool stays declared if the teacher turns tracking off mid-session
+    if (!useTutorSettingsStore.getState().trackMisconceptions) {
+      return { success: true, recorded: false, reason: 'Misconception tracking is turned off for this student - address it with questions instead' };
+    }
+
     const misconception: Misconception = {
       id: uuidv4(),
       timestamp: Date.now(),
       type: params.type,
       evidence: params.evidence,
-      severity: params.severity
+      severity: params.severity,
+      callId
     };
     
     // Add to session store
     sessionStore.misconceptions.push(misconception);
+    onCancel(() => {
+      removeById(sessionStore.misconceptions, misconception.id);
+      sessionBus.emit({ type: 'misconception-removed', id: misconception.id });
+    });
     
     // Create visual indicator (not as error, but as interesting thinking)
-    window.dispatchEvent(new CustomEvent('misconception-flagged', { 
-      detail: { 
-        ...misconception,
-        celebration: true // Always celebrate attempts
-      } 
-    }));
+    sessionBus.emit({ type: 'misconception-flagged', misconception });
     
     return { success: true, misconceptionId: misconception.id };
+  }
+});
+
+const suggestHint = defineTool({
+  name: 'suggest_hint',
+  description: 'Provide scaffolded support',
+  parameters: {
+    level: param.enum(HINT_LEVELS, 'Level of support'),
+    content: param.string('The hint content'),
+    manipulative: param.optional(param.enum(
+      ['fraction-circles', 'fraction-bar'],
+      'For visual_hint: a ghosted manipulative to show the student'
+    )),
+    parts: param.optional(param.number({ description: 'Number of equal parts in the manipulative', min: 1, max: 12 })),
+    shaded: param.optional(param.number({ description: 'Number of shaded parts in the manipulative', min: 0, max: 12 })),
+    steps: param.optional(param.array(param.string(), 'For worked_example: the steps, in order'))
   },
-  
-  suggest_hint: async (params: any) => {
-    // Visual hints appear on canvas
-    if (params.level === 'visual_hint') {
-      const hintId = uuidv4();
-      
-      window.dispatchEvent(new CustomEvent('visual-hint-requested', {
-        detail: {
-          id: hintId,
-          level: params.level,
-          content: params.content
-        }
-      }));
-      
-      return { success: true, hintId };
+  execute: async (params, { callId, onCancel }) => {
+    if (params.level === 'worked_example' && !useTutorSettingsStore.getState().workedExamples) {
+      return { success: true, shown: false, reason: 'Worked examples are turned off for this student - give a visual hint instead' };
+    }
+
+    const hint: Hint = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      level: params.level,
+      content: params.content,
+      callId
+    };
+
+    if (params.manipulative) {
+      const parts = Math.round(params.parts ?? 4);
+      hint.manipulative = {
+        type: params.manipulative,
+        parts,
+        shaded: Math.min(parts, Math.round(params.shaded ?? 0))
+      };
+    }
+
+    if (params.level === 'worked_example') {
+      hint.steps = params.steps && params.steps.length > 0
+        ? params.steps
+        : params.content.split(/\n+/).map(step => step.trim()).filter(Boolean);
+    }
+
+    // Every hint is recorded so we can see how far support escalated
+    sessionStore.hints.push(hint);
+    sessionBus.emit({ type: 'hint-suggested', hint });
+    onCancel(() => {
+      removeById(sessionStore.hints, hint.id);
+      sessionBus.emit({ type: 'visual-hint-dismissed', id: hint.id });
+    });
+
+    // Visual hints and worked examples appear in the hint card
+    if (params.level === 'visual_hint' || params.level === 'worked_example') {
+      sessionBus.emit({ type: 'visual-hint-requested', hint });
+      return { success: true, hintId: hint.id, delivered: 'visually' };
     }
     
     // Other hints are just verbal from Pi
-    return { success: true, delivered: 'verbally' };
+    return { success: true, hintId: hint.id, delivered: 'verbally' };
+  }
+});
+
+const celebrateExploration = defineTool({
+  name: 'celebrate_exploration',
+  description: 'Acknowledge productive struggle',
+  parameters: {
+    message: param.string('Encouragement message'),
+    animation: param.enum(CELEBRATION_ANIMATIONS, 'Animation type')
   },
-  
-  celebrate_exploration: async (params: any) => {
-    const celebrationId = uuidv4();
+  execute: async (params, { callId, onCancel }) => {
+    if (useTutorSettingsStore.getState().celebrations === 'off') {
+      return { success: true, shown: false, reason: 'Celebrations are turned off for this student - celebrate with your words instead' };
+    }
+    if (!canCelebrate()) {
+      return { success: true, shown: false, reason: 'Celebrated very recently - save the next one for a bigger moment' };
+    }
+
+    const celebration: Celebration = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      message: params.message,
+      animation: params.animation,
+      callId
+    };
     
     // Trigger celebration animation
-    window.dispatchEvent(new CustomEvent('celebrate-exploration', {
-      detail: {
-        id: celebrationId,
-        message: params.message,
-        animation: params.animation
-      }
-    }));
+    sessionBus.emit({ type: 'celebrate-exploration', celebration });
     
     // Add to session
-    sessionStore.celebrations.push({
-      id: celebrationId,
-      timestamp: Date.now(),
-      message: params.message,
-      animation: params.animation
+    sessionStore.celebrations.push(celebration);
+    onCancel(() => {
+      removeById(sessionStore.celebrations, celebration.id);
+      sessionBus.emit({ type: 'celebration-cancelled', id: celebration.id });
     });
     
-    return { success: true, celebrationId };
+    return { success: true, shown: true, celebrationId: celebration.id };
+  }
+});
+
+const annotateCanvas = defineTool({
+  name: 'annotate_canvas',
+  description: "Draw on student's canvas to provide visual guidance",
+  parameters: {
+    type: param.enum(['arrow', 'circle', 'underline'], 'Type of annotation'),
+    coordinates: param.array(
+      param.object({ x: param.number(), y: param.number() }),
+      'Coordinate points for the annotation, in canvas pixels (x 0-800, y 0-600)'
+    ),
+    color: param.optional(param.string('Color of the annotation')),
+    message: param.optional(param.string('Optional message with the annotation'))
   },
-  
-  annotate_canvas: async (params: any) => {
+  execute: async (params, { callId, onCancel }) => {
     const annotation: CanvasAnnotation = {
       id: uuidv4(),
       type: params.type,
       coordinates: params.coordinates,
       color: params.color || designSystem.colors.primary,
-      message: params.message
+      message: params.message,
+      callId
     };
     
     // Add to session store
     sessionStore.annotations.push(annotation);
+    onCancel(() => {
+      removeById(sessionStore.annotations, annotation.id);
+      sessionBus.emit({ type: 'canvas-annotation-removed', id: annotation.id });
+    });
     
     // Trigger canvas annotation
-    window.dispatchEvent(new CustomEvent('canvas-annotation', { detail: annotation }));
+    sessionBus.emit({ type: 'canvas-annotation', annotation });
     
     return { success: true, annotationId: annotation.id };
   }
+});
+
+// Settings shared by add_manipulative and update_manipulative; each
+// manipulative only uses the ones that apply to it
+const manipulativeSettingsParams = {
+  parts: param.optional(param.number({ description: 'fraction-bar / fraction-circles: number of equal parts', min: 1, max: 12 })),
+  shaded: param.optional(param.number({ description: 'fraction-bar / fraction-circles / area-model: number of shaded parts or cells', min: 0, max: 100 })),
+  rows: param.optional(param.number({ description: 'area-model / array-grid: number of rows', min: 1, max: 10 })),
+  cols: param.optional(param.number({ description: 'area-model / array-grid: number of columns', min: 1, max: 10 })),
+  min: param.optional(param.number({ description: 'number-line: smallest value' })),
+  max: param.optional(param.number({ description: 'number-line: largest value' })),
+  marks: param.optional(param.array(param.number(), 'number-line / visual-number-line: positions to mark')),
+  length: param.optional(param.number({ description: 'visual-number-line: number of units', min: 1, max: 20 })),
+  x: param.optional(param.number({ description: 'Left edge in canvas pixels (0-800)', min: 0, max: 800 })),
+  y: param.optional(param.number({ description: 'Top edge in canvas pixels (0-600)', min: 0, max: 600 }))
 };
 
-// Helper to handle tool calls from Gemini
-export async function handleToolCall(functionCall: FunctionCall) {
-  const { name, args } = functionCall;
-  
-  if (!name) {
+const findManipulative = (id: string) => {
+  const { manipulatives } = useManipulativeStore.getState();
+  const manipulative = manipulatives.find(m => m.id === id);
+  if (!manipulative) {
+    const known = manipulatives.map(m => m.id).join(', ') || 'none';
+    throw new Error(`No manipulative with id "${id}" on the canvas (current ids: ${known})`);
+  }
+  return manipulative;
+};
+
+const addManipulative = defineTool({
+  name: 'add_manipulative',
+  description: "Place a manipulative on the student's canvas, set up as a starting model they can explore",
+  parameters: {
+    type: param.enum(MANIPULATIVE_TYPES, 'Which manipulative to place'),
+    ...manipulativeSettingsParams
+  },
+  execute: async ({ type, x, y, ...settings }, { onCancel }) => {
+    const store = useManipulativeStore.getState();
+    const manipulative = store.add(type, {
+      x,
+      y,
+      data: buildManipulativeData(type, settings),
+      placedBy: 'pi'
+    });
+    onCancel(() => useManipulativeStore.getState().remove(manipulative.id));
+
+    return { success: true, manipulativeId: manipulative.id, state: manipulative.data };
+  }
+});
+
+const updateManipulative = defineTool({
+  name: 'update_manipulative',
+  description: 'Change a manipulative already on the canvas (move it, or change its parts, shading, range or marks)',
+  parameters: {
+    id: param.string('The manipulativeId returned by add_manipulative'),
+    ...manipulativeSettingsParams
+  },
+  execute: async ({ id, x, y, ...settings }, { onCancel }) => {
+    const previous = findManipulative(id);
+    const store = useManipulativeStore.getState();
+
+    store.update(id, buildManipulativeData(previous.type, settings, previous.data), 'pi');
+    if (x !== undefined || y !== undefined) {
+      store.move(id, x ?? previous.x, y ?? previous.y);
+    }
+    onCancel(() => useManipulativeStore.getState().restore(previous));
+
+    const updated = findManipulative(id);
+    return { success: true, manipulativeId: id, state: updated.data };
+  }
+});
+
+const removeManipulative = defineTool({
+  name: 'remove_manipulative',
+  description: 'Take a manipulative off the canvas',
+  parameters: {
+    id: param.string('The id of the manipulative to remove')
+  },
+  execute: async ({ id }, { onCancel }) => {
+    findManipulative(id);
+    const removed = useManipulativeStore.getState().remove(id);
+    if (removed) {
+      onCancel(() => useManipulativeStore.getState().restore(removed));
+    }
+
+    return { success: true, manipulativeId: id };
+  }
+});
+
+const getCanvasStateTool = defineTool({
+  name: 'get_canvas_state',
+  description: "Get the exact state of the student's canvas: every manipulative's values (parts, shading, marks) and a summary of their drawing",
+  parameters: {},
+  execute: async () => {
+    const state = getCanvasState();
+    return { success: true, description: describeCanvasState(state), state };
+  }
+});
+
+// Moving on can't be taken back - by the time a cancellation arrives the
+// student is already looking at the next problem
+const completeProblem = defineTool({
+  name: 'complete_problem',
+  description: "Finish the student's current problem and move them on to the next one",
+  parameters: {
+    outcome: param.enum(
+      ['solved', 'needs_support'],
+      'solved: they showed the success criteria; needs_support: still stuck after hints, move to a more supported problem'
+    ),
+    criteria_met: param.array(param.string(), "Which of the problem's success criteria the student showed, in your words"),
+    evidence: param.string('What the student said or did that shows it')
+  },
+  execute: async (params) => {
+    const { currentProblem, advance } = useProblemStore.getState();
+    if (!currentProblem) {
+      return { success: false, error: 'no_problem', message: 'The student is not on a problem right now' };
+    }
+
+    const { met, unmet } = matchSuccessCriteria(currentProblem, [...params.criteria_met, params.evidence]);
+    if (params.outcome === 'solved' && met.length === 0) {
+      return {
+        success: false,
+        error: 'criteria_not_met',
+        message: `Nothing you described matches this problem's success criteria yet: ${currentProblem.successCriteria.join('; ')}. Keep exploring with the student, or use needs_support.`
+      };
+    }
+
+    const next = advance(params.outcome === 'solved', sessionStore.misconceptions);
+    if (!next) {
+      return { success: true, completed: false, criteriaMet: met, message: 'That was the last problem on this path - celebrate and wrap up the lesson' };
+    }
+    // Extend problems hand over to the next lesson, which Pi's instruction doesn't cover
+    const newLesson = next.problem.lessonId !== currentProblem.lessonId ? getLesson(next.problem.lessonId) : undefined;
     return {
-      response: null,
-      error: 'Function name is missing'
+      success: true,
+      completed: true,
+      criteriaMet: met,
+      criteriaUnmet: unmet,
+      branch: next.branch,
+      nextProblem: {
+        id: next.problem.id,
+        spokenPrompt: next.problem.spokenPrompt,
+        successCriteria: next.problem.successCriteria,
+        hints: next.problem.hints,
+        misconceptionFocus: next.misconceptionId
+      },
+      newLesson: newLesson && { title: newLesson.title, concepts: newLesson.concepts }
     };
   }
-  
-  if (name in toolImplementations) {
+});
+
+export const toolRegistry = createToolRegistry([
+  markReasoningStep,
+  flagMisconception,
+  suggestHint,
+  celebrateExploration,
+  annotateCanvas,
+  addManipulative,
+  updateManipulative,
+  removeManipulative,
+  getCanvasStateTool,
+  completeProblem
+]);
+
+// Tools that don't set their own timeout get this long to finish
+export const DEFAULT_TOOL_TIMEOUT_MS = 5000;
+
+export type ToolErrorCode =
+  | 'missing_name'
+  | 'unknown_tool'
+  | 'invalid_arguments'
+  | 'execution_failed'
+  | 'timeout'
+  | 'cancelled';
+
+// Shape of every tool response we send back to Gemini when a call fails,
+// so the model can correct itself instead of waiting on a reply
+export interface ToolErrorResponse {
+  success: false;
+  error: ToolErrorCode;
+  message: string;
+  issues?: ValidationIssue[];
+  availableTools?: string[];
+}
+
+export interface ToolCallResult {
+  response: Record<string, unknown>;
+  error: string | null;
+  // Pi cancelled the call, so no response should be sent for it
+  cancelled?: boolean;
+}
+
+// Calls we can still roll back if Pi cancels them. Tools finish almost
+// instantly, so cancellations usually arrive after execution - we keep the
+// most recent calls around rather than only the in-flight ones.
+interface TrackedToolCall {
+  name: string;
+  controller: AbortController;
+  undos: (() => void)[];
+}
+
+const MAX_TRACKED_CALLS = 50;
+const trackedCalls = new Map<string, TrackedToolCall>();
+// Cancellations can arrive while earlier calls in the same batch are still
+// running, before we have started the cancelled one. Bounded the same way,
+// since a cancellation for a call that never arrives would otherwise stay.
+const cancelledBeforeStart = new Set<string>();
+
+function trackCall(callId: string, name: string): TrackedToolCall {
+  const tracked: TrackedToolCall = { name, controller: new AbortController(), undos: [] };
+  trackedCalls.set(callId, tracked);
+  if (trackedCalls.size > MAX_TRACKED_CALLS) {
+    const oldest = trackedCalls.keys().next().value;
+    if (oldest !== undefined) trackedCalls.delete(oldest);
+  }
+  return tracked;
+}
+
+// Stop the call and undo whatever it has already done. Anything it does
+// after this is undone as it lands (see onCancel).
+function abortCall(tracked: TrackedToolCall) {
+  tracked.controller.abort();
+  tracked.undos.splice(0).forEach(undo => {
     try {
-      const result = await toolImplementations[name as keyof typeof toolImplementations](args);
-      return {
-        response: result,
-        error: null
-      };
+      undo();
     } catch (error) {
-      console.error(`Error in tool ${name}:`, error);
-      return {
-        response: null,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+      console.error(`Error rolling back tool ${tracked.name}:`, error);
     }
+  });
+}
+
+class ToolTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`Tool ${name} did not finish within ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
   }
-  
+}
+
+class ToolCancelledError extends Error {
+  constructor(name: string) {
+    super(`Tool ${name} was cancelled`);
+    this.name = 'ToolCancelledError';
+  }
+}
+
+// Settle with the tool's result unless it times out or is aborted first
+function runTool<T>(promise: Promise<T>, name: string, timeoutMs: number, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ToolCancelledError(name));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new ToolTimeoutError(name, timeoutMs));
+    }, timeoutMs);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+const toolError = (functionCall: FunctionCall, response: ToolErrorResponse): ToolCallResult => {
+  // Keep a record for the teacher view
+  useToolCallLogStore.getState().recordFailure({
+    callId: functionCall.id,
+    name: functionCall.name || 'unknown',
+    args: functionCall.args,
+    error: response.error,
+    message: response.message,
+    timestamp: Date.now()
+  });
+
   return {
-    response: null,
-    error: `Unknown tool: ${name}`
+    response: { ...response },
+    error: response.message
   };
-}
\ No newline at end of file
+};
+
+// Helper to handle tool calls from Gemini. Always resolves with a response
+// that can be sent back, even when the call fails.
+export async function handleToolCall(functionCall: FunctionCall): Promise<ToolCallResult> {
+  const { name, args } = functionCall;
+
+  if (functionCall.id && cancelledBeforeStart.delete(functionCall.id)) {
+    return {
+      response: { success: false, error: 'cancelled', message: `Tool ${name} was cancelled` },
+      error: 'cancelled',
+      cancelled: true
+    };
+  }
+  
+  if (!name) {
+    return toolError(functionCall, {
+      success: false,
+      error: 'missing_name',
+      message: 'Function name is missing'
+    });
+  }
+  
+  const tool = toolRegistry.get(name);
+  if (!tool) {
+    return toolError(functionCall, {
+      success: false,
+      error: 'unknown_tool',
+      message: `Unknown tool: ${name}`,
+      availableTools: toolRegistry.names()
+    });
+  }
+
+  const validation = toolRegistry.validate(name, args);
+  if (!validation.ok) {
+    const details = validation.issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+    console.warn(`Invalid arguments for tool ${name}:`, validation.issues);
+    return toolError(functionCall, {
+      success: false,
+      error: 'invalid_arguments',
+      message: `Invalid arguments for ${name}: ${details}`,
+      issues: validation.issues
+    });
+  }
+
+  const callId = functionCall.id || uuidv4();
+  const tracked = trackCall(callId, name);
+
+  try {
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const execution = tool.execute(validation.params, {
+      callId: functionCall.id,
+      signal: tracked.controller.signal,
+      onCancel: (undo) => {
+        // Side effects that land after a cancellation are undone straight away
+        if (tracked.controller.signal.aborted) {
+          undo();
+        } else {
+          tracked.undos.push(undo);
+        }
+      }
+    });
+    const result = await runTool(execution, name, timeoutMs, tracked.controller.signal);
+    return {
+      response: result as Record<string, unknown>,
+      error: null
+    };
+  } catch (error) {
+    if (error instanceof ToolCancelledError) {
+      return {
+        response: { success: false, error: 'cancelled', message: error.message },
+        error: error.message,
+        cancelled: true
+      };
+    }
+    console.error(`Error in tool ${name}:`, error);
+    if (error instanceof ToolTimeoutError) {
+      // Pi is told the call failed, so don't leave it half-applied
+      abortCall(tracked);
+    }
+    return toolError(functionCall, {
+      success: false,
+      error: error instanceof ToolTimeoutError ? 'timeout' : 'execution_failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// Abort in-flight calls and roll back the side effects of finished ones
+// when the live session sends a toolCallCancellation
+export function cancelToolCalls(ids: string[]) {
+  ids.forEach(callId => {
+    const tracked = trackedCalls.get(callId);
+    if (!tracked) {
+      cancelledBeforeStart.add(callId);
+      if (cancelledBeforeStart.size > MAX_TRACKED_CALLS) {
+        const oldest = cancelledBeforeStart.values().next().value;
+        if (oldest !== undefined) cancelledBeforeStart.delete(oldest);
+      }
+      return;
+    }
+
+    abortCall(tracked);
+    trackedCalls.delete(callId);
+
+    sessionBus.emit({ type: 'tool-call-cancelled', callId, name: tracked.name });
+  });
+}
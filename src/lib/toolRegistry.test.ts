@@ -0,0 +1,123 @@
+import { createToolRegistry, defineTool, param } from './toolRegistry';
+import { MISCONCEPTION_IDS } from '../data/misconceptions';
+
+const flagMisconception = defineTool({
+  name: 'flag_misconception',
+  description: 'Flag a misconception',
+  parameters: {
+    misconception_type: param.enum(MISCONCEPTION_IDS),
+    evidence: param.string(),
+    severity: param.optional(param.enum(['minor', 'major'] as const))
+  },
+  execute: async () => ({ success: true })
+});
+
+const addManipulative = defineTool({
+  name: 'add_manipulative',
+  description: 'Set up a model',
+  parameters: {
+    parts: param.number({ min: 1, max: 12 }),
+    shaded: param.optional(param.array(param.number({ min: 0 }))),
+    locked: param.optional(param.boolean()),
+    position: param.optional(param.object({ x: param.number(), y: param.number() })),
+    labels: param.optional(param.array(param.object({ text: param.string(), at: param.number() })))
+  },
+  execute: async () => ({ success: true })
+});
+
+const registry = createToolRegistry([flagMisconception, addManipulative]);
+
+describe('tool argument validation', () => {
+  it('passes well-formed arguments through', () => {
+    expect(registry.validate('flag_misconception', {
+      misconception_type: 'unequal_parts',
+      evidence: 'split the pizza into a big and a small piece'
+    })).toEqual({
+      ok: true,
+      params: { misconception_type: 'unequal_parts', evidence: 'split the pizza into a big and a small piece' }
+    });
+  });
+
+  it('coerces strings, numbers and booleans the way Gemini sends them', () => {
+    expect(registry.validate('add_manipulative', {
+      parts: '4',
+      shaded: 2,
+      locked: 'true',
+      position: { x: '10', y: 20 }
+    })).toEqual({
+      ok: true,
+      params: { parts: 4, shaded: [2], locked: true, position: { x: 10, y: 20 } }
+    });
+    expect(registry.validate('flag_misconception', {
+      misconception_type: 'unequal_parts',
+      evidence: 42
+    })).toMatchObject({ ok: true, params: { evidence: '42' } });
+  });
+
+  it('normalises near-miss enum values', () => {
+    expect(registry.validate('flag_misconception', {
+      misconception_type: 'Unequal Parts',
+      evidence: 'x',
+      severity: 'MAJOR'
+    })).toMatchObject({ ok: true, params: { misconception_type: 'unequal_parts', severity: 'major' } });
+    expect(registry.validate('flag_misconception', {
+      misconception_type: 'counting-not-measuring',
+      evidence: 'x'
+    })).toMatchObject({ ok: true, params: { misconception_type: 'counting_not_measuring' } });
+  });
+
+  it('rejects unknown enum values', () => {
+    const result = registry.validate('flag_misconception', {
+      misconception_type: 'fraction_confusion',
+      evidence: 'x'
+    });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues).toEqual([{
+      path: 'misconception_type',
+      message: `expected one of ${MISCONCEPTION_IDS.join(', ')} but got "fraction_confusion"`
+    }]);
+  });
+
+  it('reports missing required params and allows missing optional ones', () => {
+    expect(registry.validate('flag_misconception', { evidence: 'x' })).toEqual({
+      ok: false,
+      issues: [{ path: 'misconception_type', message: 'is required' }]
+    });
+    expect(registry.validate('flag_misconception', { misconception_type: 'unequal_parts', evidence: 'x', severity: null }))
+      .toMatchObject({ ok: true });
+    expect(registry.validate('add_manipulative', undefined)).toEqual({
+      ok: false,
+      issues: [{ path: 'parts', message: 'is required' }]
+    });
+  });
+
+  it('reports issues inside arrays and objects by path', () => {
+    expect(registry.validate('add_manipulative', {
+      parts: 20,
+      shaded: [1, 'lots'],
+      position: { x: 1 },
+      labels: [{ text: 'half', at: 2 }, { at: 'middle' }]
+    })).toEqual({
+      ok: false,
+      issues: [
+        { path: 'parts', message: 'expected a number between 1 and 12 but got 20' },
+        { path: 'shaded[1]', message: 'expected a number' },
+        { path: 'position.y', message: 'is required' },
+        { path: 'labels[1].text', message: 'is required' },
+        { path: 'labels[1].at', message: 'expected a number' }
+      ]
+    });
+    expect(registry.validate('add_manipulative', { parts: 2, position: [1, 2] })).toEqual({
+      ok: false,
+      issues: [{ path: 'position', message: 'expected an object' }]
+    });
+  });
+
+  it('drops unknown keys and rejects unknown tools', () => {
+    expect(registry.validate('add_manipulative', { parts: 3, colour: 'red' })).toEqual({ ok: true, params: { parts: 3 } });
+    expect(registry.validate('erase_everything', {})).toEqual({
+      ok: false,
+      issues: [{ path: 'name', message: 'unknown tool erase_everything' }]
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { FunctionDeclaration, Schema, Type } from "@google/genai";
+
+// A single problem found while validating tool arguments
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// A parameter schema knows how to describe itself to Gemini and how to
+// validate + coerce whatever the model actually sent
+export interface ParamSchema<T, Optional extends boolean = false> {
+  optional: Optional;
+  declaration: Schema;
+  parse: (value: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+}
+
+export type ParamShape = Record<string, ParamSchema<any, boolean>>;
+
+export type InferParam<S> = S extends ParamSchema<infer T, boolean> ? T : never;
+
+type RequiredKeys<S extends ParamShape> = {
+  [K in keyof S]: S[K]['optional'] extends true ? never : K
+}[keyof S];
+
+type OptionalKeys<S extends ParamShape> = Exclude<keyof S, RequiredKeys<S>>;
+
+export type InferParams<S extends ParamShape> = {
+  [K in RequiredKeys<S>]: InferParam<S[K]>
+} & {
+  [K in OptionalKeys<S>]?: InferParam<S[K]>
+};
+
+const describe = (path: string) => path || 'arguments';
+
+// Gemini is loose with enums ("Unequal Parts", "unequal-parts"), so we
+// normalise before giving up on a value
+const normaliseEnumValue = (value: string) =>
+  value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Parameter schema builders
+export const param = {
+  string(description?: string): ParamSchema<string> {
+    return {
+      optional: false,
+      declaration: { type: Type.STRING, description },
+      parse: (value, path, issues) => {
+        if (typeof value === 'string') return value;
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+        issues.push({ path: describe(path), message: 'expected a string' });
+        return undefined;
+      }
+    };
+  },
+
+  enum<const E extends string>(values: readonly E[], description?: string): ParamSchema<E> {
+    return {
+      optional: false,
+      declaration: { type: Type.STRING, enum: [...values], description },
+      parse: (value, path, issues) => {
+        if (typeof value === 'string') {
+          if ((values as readonly string[]).includes(value)) return value as E;
+          const normalised = normaliseEnumValue(value);
+          const match = values.find(v => normaliseEnumValue(v) === normalised);
+          if (match) return match;
+        }
+        issues.push({
+          path: describe(path),
+          message: `expected one of ${values.join(', ')} but got ${JSON.stringify(value)}`
+        });
+        return undefined;
+      }
+    };
+  },
+
+  number(options: { description?: string; min?: number; max?: number } = {}): ParamSchema<number> {
+    const { description, min, max } = options;
+    return {
+      optional: false,
+      declaration: { type: Type.NUMBER, description, minimum: min, maximum: max },
+      parse: (value, path, issues) => {
+        const parsed = typeof value === 'string' && value.trim() !== ''
+          ? Number(value)
+          : value;
+        if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+          issues.push({ path: describe(path), message: 'expected a number' });
+          return undefined;
+        }
+        if ((min !== undefined && parsed < min) || (max !== undefined && parsed > max)) {
+          issues.push({
+            path: describe(path),
+            message: `expected a number between ${min ?? '-∞'} and ${max ?? '∞'} but got ${parsed}`
+          });
+          return undefined;
+        }
+        return parsed;
+      }
+    };
+  },
+
+  boolean(description?: string): ParamSchema<boolean> {
+    return {
+      optional: false,
+      declaration: { type: Type.BOOLEAN, description },
+      parse: (value, path, issues) => {
+        if (typeof value === 'boolean') return value;
+        if (value === 'true' || value === 'false') return value === 'true';
+        issues.push({ path: describe(path), message: 'expected true or false' });
+        return undefined;
+      }
+    };
+  },
+
+  array<T>(items: ParamSchema<T, boolean>, description?: string): ParamSchema<T[]> {
+    return {
+      optional: false,
+      declaration: { type: Type.ARRAY, items: items.declaration, description },
+      parse: (value, path, issues) => {
+        // A lone value where a list was expected is treated as a list of one
+        const list = Array.isArray(value) ? value : [value];
+        const before = issues.length;
+        const parsed = list.map((item, i) => items.parse(item, `${path}[${i}]`, issues));
+        return issues.length === before ? parsed as T[] : undefined;
+      }
+    };
+  },
+
+  object<S extends ParamShape>(shape: S, description?: string): ParamSchema<InferParams<S>> {
+    const required = Object.keys(shape).filter(key => !shape[key].optional);
+    const properties: Record<string, Schema> = {};
+    Object.entries(shape).forEach(([key, schema]) => {
+      properties[key] = schema.declaration;
+    });
+
+    return {
+      optional: false,
+      declaration: {
+        type: Type.OBJECT,
+        description,
+        properties,
+        required: required.length > 0 ? required : undefined
+      },
+      parse: (value, path, issues) => {
+        if (!isPlainObject(value)) {
+          issues.push({ path: describe(path), message: 'expected an object' });
+          return undefined;
+        }
+
+        const before = issues.length;
+        const result: Record<string, unknown> = {};
+        Object.entries(shape).forEach(([key, schema]) => {
+          const keyPath = path ? `${path}.${key}` : key;
+          const raw = value[key];
+          if (raw === undefined || raw === null) {
+            if (!schema.optional) {
+              issues.push({ path: keyPath, message: 'is required' });
+            }
+            return;
+          }
+          const parsed = schema.parse(raw, keyPath, issues);
+          if (parsed !== undefined) result[key] = parsed;
+        });
+        // Unknown keys are dropped rather than passed through to the tool
+        return issues.length === before ? result as InferParams<S> : undefined;
+      }
+    };
+  },
+
+  optional<T>(schema: ParamSchema<T, boolean>): ParamSchema<T, true> {
+    return { ...schema, optional: true };
+  }
+};
+
+// Per-call context handed to every tool execution
+export interface ToolContext {
+  callId?: string;
+  signal: AbortSignal;
+  // Register a rollback for the call's side effects, run if Pi cancels it
+  onCancel: (undo: () => void) => void;
+}
+
+export interface ToolDefinition<S extends ParamShape, R> {
+  name: string;
+  description: string;
+  parameters: S;
+  // How long the tool may run before Pi gets a timeout error instead
+  timeoutMs?: number;
+  execute: (params: InferParams<S>, context: ToolContext) => Promise<R>;
+}
+
+export type AnyToolDefinition = ToolDefinition<any, unknown>;
+
+// Identity helper so each tool's params are inferred from its own schema
+export function defineTool<S extends ParamShape, R>(definition: ToolDefinition<S, R>): ToolDefinition<S, R> {
+  return definition;
+}
+
+export type ValidationResult =
+  | { ok: true; params: Record<string, unknown> }
+  | { ok: false; issues: ValidationIssue[] };
+
+export interface ToolRegistry {
+  has: (name: string) => boolean;
+  get: (name: string) => AnyToolDefinition | undefined;
+  names: () => string[];
+  validate: (name: string, args: unknown) => ValidationResult;
+  getDeclarations: () => FunctionDeclaration[];
+}
+
+export function createToolRegistry(tools: AnyToolDefinition[]): ToolRegistry {
+  const byName = new Map<string, AnyToolDefinition>();
+  const parsers = new Map<string, ParamSchema<Record<string, unknown>>>();
+
+  tools.forEach(tool => {
+    if (byName.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is registered twice`);
+    }
+    byName.set(tool.name, tool);
+    parsers.set(tool.name, param.object(tool.parameters));
+  });
+
+  return {
+    has: (name) => byName.has(name),
+    get: (name) => byName.get(name),
+    names: () => Array.from(byName.keys()),
+
+    validate: (name, args) => {
+      const parser = parsers.get(name);
+      if (!parser) {
+        return { ok: false, issues: [{ path: 'name', message: `unknown tool ${name}` }] };
+      }
+      const issues: ValidationIssue[] = [];
+      const params = parser.parse(args ?? {}, '', issues);
+      if (params === undefined || issues.length > 0) {
+        return { ok: false, issues };
+      }
+      return { ok: true, params };
+    },
+
+    getDeclarations: () =>
+      tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        // The Live API rejects an object schema with no properties
+        parameters: Object.keys(tool.parameters).length > 0
+          ? parsers.get(tool.name)!.declaration
+          : undefined
+      }))
+  };
+}
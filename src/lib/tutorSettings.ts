@@ -0,0 +1,92 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+// How celebrations are shown: full animations, a quiet message only, or not at all
+export type CelebrationMode = 'full' | 'gentle' | 'off';
+
+// 'adaptive' leaves pacing to Pi; the others pin it
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'adaptive';
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'adaptive'];
+
+// The settings that shape how Pi tutors - compiled into the system
+// instruction and tool set by piTutor.ts
+export interface TutorSettings {
+  celebrations: CelebrationMode;
+  // Offer a hint unprompted after this many failed attempts
+  autoHints: boolean;
+  hintAfterAttempts: number;
+  trackMisconceptions: boolean;
+  workedExamples: boolean;
+  difficulty: Difficulty;
+}
+
+export const DEFAULT_TUTOR_SETTINGS: TutorSettings = {
+  celebrations: 'full',
+  autoHints: true,
+  hintAfterAttempts: 2,
+  trackMisconceptions: true,
+  workedExamples: false,
+  difficulty: 'adaptive'
+};
+
+// Settings for whoever is learning when no student profile is picked
+const GUEST_KEY = 'guest';
+
+interface TutorSettingsState extends TutorSettings {
+  // Whose settings the values above are; each student keeps their own
+  studentId: string | null;
+  byStudent: Record<string, TutorSettings>;
+  setCelebrations: (mode: CelebrationMode) => void;
+  setAutoHints: (autoHints: boolean) => void;
+  setHintAfterAttempts: (attempts: number) => void;
+  setTrackMisconceptions: (track: boolean) => void;
+  setWorkedExamples: (workedExamples: boolean) => void;
+  setDifficulty: (difficulty: Difficulty) => void;
+  switchStudent: (studentId: string | null) => void;
+  forgetStudent: (studentId: string) => void;
+}
+
+// Teacher-controlled tutor settings, persisted in localStorage
+export const useTutorSettingsStore = create<TutorSettingsState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_TUTOR_SETTINGS,
+      studentId: null,
+      byStudent: {},
+      setCelebrations: (celebrations: CelebrationMode) => set({ celebrations }),
+      setAutoHints: (autoHints: boolean) => set({ autoHints }),
+      setHintAfterAttempts: (attempts: number) =>
+        set({ hintAfterAttempts: Math.max(1, Math.round(attempts)) }),
+      setTrackMisconceptions: (trackMisconceptions: boolean) => set({ trackMisconceptions }),
+      setWorkedExamples: (workedExamples: boolean) => set({ workedExamples }),
+      setDifficulty: (difficulty: Difficulty) => set({ difficulty }),
+      // Put the current student's settings away and bring out the next one's -
+      // new students start from the defaults
+      switchStudent: (studentId: string | null) => set(state => {
+        if (state.studentId === studentId) return {};
+        const byStudent = { ...state.byStudent, [state.studentId ?? GUEST_KEY]: selectTutorSettings(state) };
+        return {
+          ...DEFAULT_TUTOR_SETTINGS,
+          ...byStudent[studentId ?? GUEST_KEY],
+          studentId,
+          byStudent
+        };
+      }),
+      forgetStudent: (studentId: string) => set(state => {
+        const { [studentId]: _forgotten, ...byStudent } = state.byStudent;
+        return { byStudent };
+      }),
+    }),
+    { name: 'simili-tutor-settings' }
+  )
+);
+
+// Just the values, without the setters
+export const selectTutorSettings = (state: TutorSettingsState): TutorSettings => ({
+  celebrations: state.celebrations,
+  autoHints: state.autoHints,
+  hintAfterAttempts: state.hintAfterAttempts,
+  trackMisconceptions: state.trackMisconceptions,
+  workedExamples: state.workedExamples,
+  difficulty: state.difficulty
+});
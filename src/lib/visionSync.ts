@@ -0,0 +1,115 @@
+import { describeCanvasState, useStrokeSummaryStore } from './canvasState';
+
+// dHash grid: each row compares HASH_SIZE + 1 neighbouring pixels
+const HASH_SIZE = 16;
+// Bits (out of 256) that must differ before a redraw counts as a new picture
+const MIN_HASH_DISTANCE = 4;
+
+// What actually needs to go to Pi for one vision update; anything left
+// undefined is unchanged since the last send
+export interface VisionUpdatePlan {
+  problemImage?: string;
+  canvasImage?: string;
+  canvasDescription?: string;
+  firstForProblem: boolean;
+}
+
+// Difference hash of a data URL image - survives JPEG noise, changes when
+// the student actually draws something
+export function perceptualHash(dataUrl: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = HASH_SIZE + 1;
+      canvas.height = HASH_SIZE;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('No 2d context available for hashing'));
+        return;
+      }
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+      const gray = (x: number, y: number) => {
+        const i = (y * canvas.width + x) * 4;
+        return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+      };
+
+      let bits = '';
+      for (let y = 0; y < HASH_SIZE; y++) {
+        for (let x = 0; x < HASH_SIZE; x++) {
+          bits += gray(x, y) > gray(x + 1, y) ? '1' : '0';
+        }
+      }
+      resolve(bits);
+    };
+    image.onerror = () => reject(new Error('Could not load canvas image for hashing'));
+    image.src = dataUrl;
+  });
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = Math.abs(a.length - b.length);
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}
+
+const toBase64 = (dataUrl: string) => dataUrl.split(',')[1] || '';
+
+// Remembers what Pi has already seen this connection, so each vision update
+// only carries what changed: the problem image once per problem, the canvas
+// only when the drawing visibly changed, the description only when it differs
+export class VisionSync {
+  private sentProblemImage: string | null = null;
+  private sentCanvasHash: string | null = null;
+  private sentStrokeSignature: string | null = null;
+  private sentDescription: string | null = null;
+
+  // New connection - Pi has seen nothing yet
+  reset() {
+    this.sentProblemImage = null;
+    this.sentCanvasHash = null;
+    this.sentStrokeSignature = null;
+    this.sentDescription = null;
+  }
+
+  // `force` resends everything, e.g. when the student asks Pi to look
+  async plan(problemImage: string, canvasImage: string, force = false): Promise<VisionUpdatePlan | null> {
+    const firstForProblem = problemImage !== this.sentProblemImage;
+    const description = describeCanvasState();
+    const strokeSignature = JSON.stringify(useStrokeSummaryStore.getState().summary);
+
+    let canvasHash: string | null = null;
+    let canvasChanged = force || firstForProblem;
+    if (!canvasChanged && strokeSignature !== this.sentStrokeSignature) {
+      // Stroke count moved - make sure the picture really did
+      canvasHash = await perceptualHash(canvasImage).catch(() => null);
+      canvasChanged = !canvasHash || !this.sentCanvasHash ||
+        hammingDistance(canvasHash, this.sentCanvasHash) >= MIN_HASH_DISTANCE;
+    }
+    const descriptionChanged = force || firstForProblem || description !== this.sentDescription;
+
+    if (!canvasChanged && !descriptionChanged) return null;
+
+    const plan: VisionUpdatePlan = { firstForProblem };
+    if (firstForProblem || force) {
+      plan.problemImage = toBase64(problemImage);
+      this.sentProblemImage = problemImage;
+    }
+    if (canvasChanged) {
+      plan.canvasImage = toBase64(canvasImage);
+      this.sentCanvasHash = canvasHash ?? await perceptualHash(canvasImage).catch(() => null);
+      this.sentStrokeSignature = strokeSignature;
+    }
+    if (descriptionChanged) {
+      plan.canvasDescription = description;
+      this.sentDescription = description;
+    }
+    return plan;
+  }
+}
+
+export const visionSync = new VisionSync();
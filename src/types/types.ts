@@ -42,3 +42,17 @@ export type ClientContentLog = {
   turns: Part[];
   turnComplete: boolean;
 };
+
+/** who said it */
+export type TranscriptSpeaker = "student" | "pi";
+
+/**
+ * a piece of live audio transcription. The server sends these as fragments
+ * of a turn, `finished` marks the last one when the server knows it
+ */
+export type TranscriptSegment = {
+  speaker: TranscriptSpeaker;
+  text: string;
+  finished: boolean;
+  timestamp: number;
+};